@@ -0,0 +1,281 @@
+/**
+ * Offline evaluation of goal extraction and completion matching.
+ *
+ * Scores extractGoals / matchCompletions against the labelled fixtures in eval/fixtures
+ * and prints a precision/recall comparison per mode. Run before changing prompts or models:
+ *
+ *   bun run eval [mode...] [--verbose]
+ *
+ * Modes: fallback (regex only, as when the LLM is down), stub (rule-based fake provider -
+ * exercises the structured output pipeline without a model), ollama[:model] and
+ * openai[:model] (default model from LLM_MODEL / OLLAMA_MODEL). Defaults to fallback, stub, ollama.
+ */
+import type { LLMProvider } from "../src/providers";
+import {
+  createFakeProvider,
+  createOllamaProvider,
+  createOpenAICompatibleProvider,
+  getTaskConfig,
+  setProvider,
+} from "../src/providers";
+import type { Goal } from "../src/goalStore";
+import { extractGoals, matchCompletions } from "../src/llm";
+import extractionFixtures from "./fixtures/extraction.json";
+import matchingFixtures from "./fixtures/matching.json";
+
+interface ExtractionFixture {
+  id: string;
+  message: string;
+  expected: string[];
+}
+
+interface MatchingFixture {
+  id: string;
+  message: string;
+  goals: string[];
+  completed: number[];
+}
+
+interface Score {
+  truePositives: number;
+  predicted: number;
+  expected: number;
+  ms: number;
+  misses: string[];
+}
+
+const newScore = (): Score => ({ truePositives: 0, predicted: 0, expected: 0, ms: 0, misses: [] });
+
+const precision = (s: Score) => (s.predicted === 0 ? (s.expected === 0 ? 1 : 0) : s.truePositives / s.predicted);
+const recall = (s: Score) => (s.expected === 0 ? 1 : s.truePositives / s.expected);
+const f1 = (s: Score) => {
+  const p = precision(s);
+  const r = recall(s);
+  return p + r === 0 ? 0 : (2 * p * r) / (p + r);
+};
+
+// ============================================
+// TEXT MATCHING - extracted goals rarely match the label word for word
+// ============================================
+
+const tokens = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .split(/\s+/)
+      .filter(Boolean)
+  );
+
+const similarity = (a: string, b: string): number => {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  const shared = [...ta].filter((t) => tb.has(t)).length;
+  const union = new Set([...ta, ...tb]).size;
+  return union === 0 ? 0 : shared / union;
+};
+
+const MATCH_THRESHOLD = 0.5;
+
+// Pair each predicted goal with at most one expected goal
+const countMatches = (predicted: string[], expected: string[]): number => {
+  const remaining = [...expected];
+  let matched = 0;
+  for (const goal of predicted) {
+    const index = remaining.findIndex((e) => similarity(goal, e) >= MATCH_THRESHOLD);
+    if (index !== -1) {
+      remaining.splice(index, 1);
+      matched++;
+    }
+  }
+  return matched;
+};
+
+// ============================================
+// STUB PROVIDER - naive rules behind the real prompts
+// ============================================
+
+const quoted = (prompt: string, label: string): string => {
+  const start = prompt.indexOf(`${label} "`);
+  if (start === -1) return "";
+  const from = start + label.length + 2;
+  return prompt.slice(from, prompt.indexOf(`"\n`, from));
+};
+
+const stubExtraction = (prompt: string): string => {
+  const goals = quoted(prompt, "Message:")
+    .split(/\n|;|,\s*(?:and\s+)?|\s+and\s+/)
+    .map((part) => part.replace(/^\s*(?:[-*•→]|\d+[.):])\s*/, "").trim())
+    .filter((part) => part.split(/\s+/).length >= 2 && !part.endsWith("?") && !part.endsWith(":"));
+  return JSON.stringify({ goals });
+};
+
+const stubMatching = (prompt: string): string => {
+  const messageWords = [...tokens(quoted(prompt, "User's message:"))].map((w) => w.slice(0, 5));
+  const matches = [...prompt.matchAll(/^\d+\. \[(.+?)\] (.+)$/gm)]
+    .filter(([, , text]) => {
+      const words = [...tokens(text)].filter((w) => w.length > 3).map((w) => w.slice(0, 5));
+      return words.length > 0 && words.filter((w) => messageWords.includes(w)).length / words.length >= 0.6;
+    })
+    .map(([, goalId]) => ({ goalId, confidence: "high" }));
+  return JSON.stringify({ matches });
+};
+
+const createStubProvider = () =>
+  createFakeProvider(
+    [
+      { match: "Extract the goals", response: stubExtraction },
+      { match: "Match their message", response: stubMatching },
+    ],
+    "{}"
+  );
+
+// ============================================
+// RUNNER
+// ============================================
+
+interface Mode {
+  label: string;
+  // null = no provider (fallback behaviour)
+  provider: LLMProvider | null;
+}
+
+const parseMode = (arg: string): Mode => {
+  const [kind, ...rest] = arg.split(":");
+  const model = rest.join(":") || getTaskConfig("extraction").model;
+  switch (kind) {
+    case "fallback":
+      return { label: "fallback", provider: null };
+    case "stub":
+      return { label: "stub", provider: createStubProvider() };
+    case "ollama":
+      return {
+        label: `ollama/${model}`,
+        provider: createOllamaProvider(model, process.env.OLLAMA_HOST || "http://localhost:11434"),
+      };
+    case "openai":
+      return {
+        label: `openai/${model}`,
+        provider: createOpenAICompatibleProvider(
+          model,
+          process.env.OPENAI_BASE_URL || "http://localhost:8080/v1",
+          process.env.OPENAI_API_KEY
+        ),
+      };
+    default:
+      throw new Error(`Unknown mode "${arg}" - use fallback, stub, ollama[:model] or openai[:model]`);
+  }
+};
+
+const toGoals = (texts: string[]): Goal[] =>
+  texts.map((text, i) => ({
+    id: `eval-${i + 1}`,
+    groupId: "eval",
+    userId: "eval",
+    text,
+    status: "active",
+    createdAt: new Date(0).toISOString(),
+    completedAt: null,
+    sprintId: "eval",
+    sprintNumber: 1,
+  }));
+
+const runMode = async (mode: Mode): Promise<{ extraction: Score; matching: Score } | null> => {
+  if (mode.provider) {
+    try {
+      await mode.provider.init();
+    } catch (error) {
+      console.error(`Skipping ${mode.label}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+  // An unready provider makes extractGoals/matchCompletions take their no-LLM paths
+  const provider = mode.provider ?? createFakeProvider();
+  setProvider("extraction", provider, mode.provider !== null);
+  setProvider("matching", provider, mode.provider !== null);
+
+  const extraction = newScore();
+  for (const fixture of extractionFixtures as ExtractionFixture[]) {
+    const started = Date.now();
+    const goals = await extractGoals(fixture.message);
+    extraction.ms += Date.now() - started;
+
+    const matched = countMatches(goals, fixture.expected);
+    extraction.truePositives += matched;
+    extraction.predicted += goals.length;
+    extraction.expected += fixture.expected.length;
+    if (matched !== goals.length || matched !== fixture.expected.length) {
+      extraction.misses.push(`${fixture.id}: got ${JSON.stringify(goals)}`);
+    }
+  }
+
+  const matching = newScore();
+  for (const fixture of matchingFixtures as MatchingFixture[]) {
+    const goals = toGoals(fixture.goals);
+    const started = Date.now();
+    const matches = await matchCompletions(fixture.message, goals);
+    matching.ms += Date.now() - started;
+
+    // Same confidence cut-off the goal handler applies before completing a goal
+    const predicted = new Set(
+      matches.filter((m) => m.confidence !== "low").map((m) => goals.findIndex((g) => g.id === m.goalId))
+    );
+    const hits = fixture.completed.filter((i) => predicted.has(i)).length;
+    matching.truePositives += hits;
+    matching.predicted += predicted.size;
+    matching.expected += fixture.completed.length;
+    if (hits !== predicted.size || hits !== fixture.completed.length) {
+      matching.misses.push(`${fixture.id}: got ${JSON.stringify([...predicted].sort())}, expected ${JSON.stringify(fixture.completed)}`);
+    }
+  }
+
+  return { extraction, matching };
+};
+
+const pct = (value: number) => `${Math.round(value * 100)}%`.padStart(5);
+
+const formatRow = (label: string, score: Score, count: number) =>
+  `${label.padEnd(28)} ${pct(precision(score))} ${pct(recall(score))} ${pct(f1(score))} ${`${Math.round(score.ms / count)}ms`.padStart(8)}`;
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const verbose = args.includes("--verbose");
+  const modeArgs = args.filter((a) => !a.startsWith("--"));
+  const modes = (modeArgs.length > 0 ? modeArgs : ["fallback", "stub", "ollama"]).map(parseMode);
+
+  const results: { mode: Mode; extraction: Score; matching: Score }[] = [];
+  const { log, warn } = console;
+  for (const mode of modes) {
+    log(`Running ${mode.label}...`);
+    // The bot's own logging (fallbacks, rejected responses) is only shown with --verbose
+    if (!verbose) console.log = console.warn = () => {};
+    const result = await runMode(mode).finally(() => Object.assign(console, { log, warn }));
+    if (result) results.push({ mode, ...result });
+  }
+
+  const header = `${"".padEnd(28)} ${"P".padStart(5)} ${"R".padStart(5)} ${"F1".padStart(5)} ${"avg".padStart(8)}`;
+
+  console.log(`\n=== Goal extraction (${extractionFixtures.length} messages) ===\n${header}`);
+  for (const { mode, extraction } of results) {
+    console.log(formatRow(mode.label, extraction, extractionFixtures.length));
+  }
+
+  console.log(`\n=== Completion matching (${matchingFixtures.length} updates) ===\n${header}`);
+  for (const { mode, matching } of results) {
+    console.log(formatRow(mode.label, matching, matchingFixtures.length));
+  }
+
+  if (verbose) {
+    for (const { mode, extraction, matching } of results) {
+      console.log(`\n--- ${mode.label} misses ---`);
+      [...extraction.misses, ...matching.misses].forEach((miss) => console.log(`  ${miss}`));
+    }
+  }
+
+  process.exit(0);
+};
+
+main().catch((error) => {
+  console.error("Eval failed:", error);
+  process.exit(1);
+});
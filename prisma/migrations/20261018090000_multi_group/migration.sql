@@ -0,0 +1,31 @@
+-- Scope goals to a group. Existing rows get an empty group ID and are
+-- claimed by the first group the bot registers.
+ALTER TABLE "goals" ADD COLUMN "group_id" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "goals" ALTER COLUMN "group_id" DROP DEFAULT;
+
+-- Scope job runs to a group
+ALTER TABLE "scheduled_job_runs" ADD COLUMN "group_id" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "scheduled_job_runs" ALTER COLUMN "group_id" DROP DEFAULT;
+
+-- Scheduler state is now one row per group instead of a singleton. The existing
+-- heartbeat gets an empty group ID and is claimed along with the goals.
+ALTER TABLE "scheduler_state" DROP CONSTRAINT "scheduler_state_pkey";
+ALTER TABLE "scheduler_state" RENAME COLUMN "id" TO "group_id";
+ALTER TABLE "scheduler_state" ALTER COLUMN "group_id" DROP DEFAULT;
+UPDATE "scheduler_state" SET "group_id" = '';
+ALTER TABLE "scheduler_state" ADD CONSTRAINT "scheduler_state_pkey" PRIMARY KEY ("group_id");
+
+-- DropIndex
+DROP INDEX "scheduled_job_runs_job_type_scheduled_for_idx";
+
+-- DropIndex
+DROP INDEX "scheduled_job_runs_job_type_status_idx";
+
+-- CreateIndex
+CREATE INDEX "goals_group_id_user_id_idx" ON "goals"("group_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "scheduled_job_runs_group_id_job_type_scheduled_for_idx" ON "scheduled_job_runs"("group_id", "job_type", "scheduled_for");
+
+-- CreateIndex
+CREATE INDEX "scheduled_job_runs_group_id_job_type_status_idx" ON "scheduled_job_runs"("group_id", "job_type", "status");
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "job_schedules" (
+    "group_id" TEXT NOT NULL,
+    "job_type" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "rule" JSONB NOT NULL,
+    "hour" INTEGER NOT NULL,
+    "minute" INTEGER NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'Pacific/Auckland',
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_schedules_pkey" PRIMARY KEY ("group_id","job_type")
+);
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "message_templates" (
+    "group_id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "message_templates_pkey" PRIMARY KEY ("group_id","key")
+);
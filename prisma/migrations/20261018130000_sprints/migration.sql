@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "sprints" (
+    "id" TEXT NOT NULL,
+    "group_id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3),
+    "kickoff_message_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sprints_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill one sprint per (group, ISO year, ISO-week sprint number) that has goals,
+-- renumbered sequentially per group in chronological order
+CREATE TEMP TABLE "legacy_sprints" AS
+SELECT
+    "group_id",
+    "sprint_number",
+    DATE_PART('isoyear', "created_at") AS "iso_year",
+    MIN("created_at") AS "start_date",
+    ROW_NUMBER() OVER (PARTITION BY "group_id" ORDER BY MIN("created_at")) AS "number"
+FROM "goals"
+GROUP BY "group_id", "sprint_number", DATE_PART('isoyear', "created_at");
+
+INSERT INTO "sprints" ("id", "group_id", "number", "start_date")
+SELECT 'legacy-' || "group_id" || '-' || "number", "group_id", "number", "start_date"
+FROM "legacy_sprints";
+
+-- Each legacy sprint ends when the next one starts
+UPDATE "sprints" s
+SET "end_date" = n."start_date"
+FROM "sprints" n
+WHERE n."group_id" = s."group_id" AND n."number" = s."number" + 1;
+
+-- Point goals at their sprint
+ALTER TABLE "goals" ADD COLUMN "sprint_id" TEXT;
+
+UPDATE "goals" g
+SET "sprint_id" = 'legacy-' || l."group_id" || '-' || l."number"
+FROM "legacy_sprints" l
+WHERE g."group_id" = l."group_id"
+  AND g."sprint_number" = l."sprint_number"
+  AND DATE_PART('isoyear', g."created_at") = l."iso_year";
+
+DROP TABLE "legacy_sprints";
+
+ALTER TABLE "goals" ALTER COLUMN "sprint_id" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "goals_sprint_number_idx";
+
+ALTER TABLE "goals" DROP COLUMN "sprint_number";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sprints_group_id_number_key" ON "sprints"("group_id", "number");
+
+-- CreateIndex
+CREATE INDEX "sprints_group_id_start_date_idx" ON "sprints"("group_id", "start_date");
+
+-- CreateIndex
+CREATE INDEX "goals_sprint_id_idx" ON "goals"("sprint_id");
+
+-- AddForeignKey
+ALTER TABLE "goals" ADD CONSTRAINT "goals_sprint_id_fkey" FOREIGN KEY ("sprint_id") REFERENCES "sprints"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
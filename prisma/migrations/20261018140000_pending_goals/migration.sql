@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "goals" ADD COLUMN "confirm_message_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "goals_confirm_message_id_idx" ON "goals"("confirm_message_id");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "job_schedules" ADD COLUMN "catch_up_mode" TEXT,
+ADD COLUMN "catch_up_grace_hours" INTEGER;
+
+-- AlterTable
+ALTER TABLE "scheduled_job_runs" ADD COLUMN "catch_up_action" TEXT,
+ADD COLUMN "catch_up_prompt" TEXT;
+
+-- CreateIndex
+CREATE INDEX "scheduled_job_runs_catch_up_prompt_idx" ON "scheduled_job_runs"("catch_up_prompt");
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "leader_leases" (
+    "name" TEXT NOT NULL,
+    "holder_id" TEXT NOT NULL,
+    "acquired_at" TIMESTAMP(3) NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "leader_leases_pkey" PRIMARY KEY ("name")
+);
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "outbox_messages" ADD COLUMN "file_name" TEXT,
+ADD COLUMN "mime_type" TEXT;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "members" (
+    "group_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "phone_id" TEXT,
+    "lid" TEXT,
+    "display_name" TEXT NOT NULL DEFAULT '',
+    "alias" TEXT,
+    "timezone" TEXT,
+    "leaderboard_opt_in" BOOLEAN NOT NULL DEFAULT true,
+    "tracking_opt_in" BOOLEAN NOT NULL DEFAULT true,
+    "joined_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "members_pkey" PRIMARY KEY ("group_id","user_id")
+);
+
+-- Backfill everyone who has set a goal, joined as of their first goal; names fill in as they message
+INSERT INTO "members" ("group_id", "user_id", "phone_id", "lid", "joined_at", "last_seen_at", "updated_at")
+SELECT
+    "group_id",
+    "user_id",
+    CASE WHEN "user_id" LIKE '%@c.us' THEN "user_id" END,
+    CASE WHEN "user_id" LIKE '%@lid' THEN "user_id" END,
+    MIN("created_at"),
+    MAX("created_at"),
+    CURRENT_TIMESTAMP
+FROM "goals"
+WHERE "group_id" <> ''
+GROUP BY "group_id", "user_id";
+
+-- CreateIndex
+CREATE INDEX "members_group_id_phone_id_idx" ON "members"("group_id", "phone_id");
+
+-- CreateIndex
+CREATE INDEX "members_group_id_lid_idx" ON "members"("group_id", "lid");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "leftover_reviews" (
+    "id" TEXT NOT NULL,
+    "group_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "chat_id" TEXT NOT NULL,
+    "goal_ids" TEXT[],
+    "prompt_message_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "leftover_reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "leftover_reviews_group_id_idx" ON "leftover_reviews"("group_id");
+
+-- CreateIndex
+CREATE INDEX "leftover_reviews_chat_id_idx" ON "leftover_reviews"("chat_id");
+
+-- CreateIndex
+CREATE INDEX "leftover_reviews_prompt_message_id_idx" ON "leftover_reviews"("prompt_message_id");
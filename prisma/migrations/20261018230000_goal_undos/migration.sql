@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "goal_undos" (
+    "group_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "goals" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "goal_undos_pkey" PRIMARY KEY ("group_id","user_id")
+);
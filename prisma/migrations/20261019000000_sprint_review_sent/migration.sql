@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "sprints" ADD COLUMN "review_sent_at" TIMESTAMP(3);
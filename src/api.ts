@@ -0,0 +1,238 @@
+// Read-only JSON REST API for dashboards and spreadsheets, served by the health server.
+// Every request needs `Authorization: Bearer <API_TOKEN>`; lists take `page` and `limit`.
+import type { IncomingMessage, ServerResponse } from "http";
+import { createHash, timingSafeEqual } from "crypto";
+import { apiToken } from "./config";
+import type { Page } from "./db";
+import type { GoalStatus } from "./goalStore";
+import { GOAL_STATUSES, getAdminStats, getGoalHistory, getUserStats, listGoalUsers, listGoals } from "./goalStore";
+import { listSprints } from "./sprintStore";
+import { getStoredGroups } from "./groupStore";
+import { RUN_STATUSES, listRuns } from "./jobTracker";
+import { JOB_TYPES } from "./schedule";
+import type { ExportFormat } from "./dataTransfer";
+import { EXPORT_TABLES, exportCsv, exportFileName, exportJson } from "./dataTransfer";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+type Query = URLSearchParams;
+
+// Query parameter readers collect problems instead of throwing, so a bad request lists them all
+interface QueryReader {
+  errors: string[];
+  string: (name: string) => string | undefined;
+  integer: (name: string, min: number, max?: number) => number | undefined;
+  date: (name: string) => Date | undefined;
+  oneOf: <T extends string>(name: string, values: readonly T[]) => T | undefined;
+  page: () => Page & { page: number; limit: number };
+}
+
+const createQueryReader = (query: Query): QueryReader => {
+  const errors: string[] = [];
+
+  const string = (name: string) => query.get(name)?.trim() || undefined;
+
+  const integer = (name: string, min: number, max = Number.MAX_SAFE_INTEGER) => {
+    const value = string(name);
+    if (value === undefined) return undefined;
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < min || n > max) {
+      const range = max < Number.MAX_SAFE_INTEGER ? `from ${min} to ${max}` : `of at least ${min}`;
+      errors.push(`${name} must be a whole number ${range}`);
+      return undefined;
+    }
+    return n;
+  };
+
+  const date = (name: string) => {
+    const value = string(name);
+    if (value === undefined) return undefined;
+    const parsed = new Date(value);
+    if (isNaN(parsed.getTime())) {
+      errors.push(`${name} must be an ISO date or timestamp`);
+      return undefined;
+    }
+    return parsed;
+  };
+
+  const oneOf = <T extends string>(name: string, values: readonly T[]) => {
+    const value = string(name);
+    if (value === undefined) return undefined;
+    if (!values.includes(value as T)) {
+      errors.push(`${name} must be one of: ${values.join(", ")}`);
+      return undefined;
+    }
+    return value as T;
+  };
+
+  const page = () => {
+    const pageNumber = integer("page", 1) ?? 1;
+    const limit = integer("limit", 1, MAX_LIMIT) ?? DEFAULT_LIMIT;
+    return { page: pageNumber, limit, skip: (pageNumber - 1) * limit, take: limit };
+  };
+
+  return { errors, string, integer, date, oneOf, page };
+};
+
+interface ApiResponse {
+  status: number;
+  body: unknown;
+  // Sent as a download instead of JSON
+  file?: { name: string; contentType: string; contents: string };
+}
+
+const ok = (body: unknown): ApiResponse => ({ status: 200, body });
+const fail = (status: number, error: string, details?: string[]): ApiResponse => ({
+  status,
+  body: details && details.length > 0 ? { error, details } : { error },
+});
+
+const paginated = (data: unknown[], total: number, page: { page: number; limit: number }) =>
+  ok({ data, page: page.page, limit: page.limit, total });
+
+// Compare digests so the check takes the same time however much of the token matches
+const isAuthorized = (req: IncomingMessage): boolean => {
+  if (!apiToken) return false;
+  const header = req.headers.authorization ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(token), digest(apiToken));
+};
+
+const listGroupsRoute = async (): Promise<ApiResponse> => {
+  const groups = await getStoredGroups();
+  return ok({ data: groups });
+};
+
+const listUsersRoute = async (q: QueryReader): Promise<ApiResponse> => {
+  const groupId = q.string("group");
+  const page = q.page();
+  if (q.errors.length > 0) return fail(400, "Invalid query", q.errors);
+
+  const { users, total } = await listGoalUsers(groupId, page);
+  return paginated(users, total, page);
+};
+
+const userStatsRoute = async (q: QueryReader, userId: string): Promise<ApiResponse> => {
+  const groupId = q.string("group");
+  const sprints = q.integer("sprints", 1, 52) ?? 3;
+  if (!groupId) q.errors.push("group is required");
+  if (q.errors.length > 0 || !groupId) return fail(400, "Invalid query", q.errors);
+
+  const [stats, history] = await Promise.all([
+    getUserStats(groupId, userId),
+    getGoalHistory(groupId, userId, sprints),
+  ]);
+  if (stats.totalGoals === 0) return fail(404, `No goals for user ${userId} in ${groupId}`);
+  return ok({ groupId, userId, stats, history });
+};
+
+const listGoalsRoute = async (q: QueryReader): Promise<ApiResponse> => {
+  const filter = {
+    groupId: q.string("group"),
+    userId: q.string("user"),
+    sprintNumber: q.integer("sprint", 1),
+    status: q.oneOf<GoalStatus>("status", GOAL_STATUSES),
+  };
+  const page = q.page();
+  if (filter.sprintNumber !== undefined && !filter.groupId) q.errors.push("sprint needs a group");
+  if (q.errors.length > 0) return fail(400, "Invalid query", q.errors);
+
+  const { goals, total } = await listGoals(filter, page);
+  return paginated(goals, total, page);
+};
+
+const listSprintsRoute = async (q: QueryReader): Promise<ApiResponse> => {
+  const groupId = q.string("group");
+  const page = q.page();
+  if (q.errors.length > 0) return fail(400, "Invalid query", q.errors);
+
+  const { sprints, total } = await listSprints(groupId, page);
+  return paginated(sprints, total, page);
+};
+
+const statsRoute = async (q: QueryReader): Promise<ApiResponse> => {
+  const groupId = q.string("group");
+  return ok(await getAdminStats(groupId));
+};
+
+const listJobsRoute = async (q: QueryReader): Promise<ApiResponse> => {
+  const filter = {
+    groupId: q.string("group"),
+    jobType: q.oneOf("job", JOB_TYPES),
+    status: q.oneOf("status", RUN_STATUSES),
+    from: q.date("from"),
+    to: q.date("to"),
+  };
+  const page = q.page();
+  if (q.errors.length > 0) return fail(400, "Invalid query", q.errors);
+
+  const { runs, total } = await listRuns(filter, page);
+  return paginated(runs, total, page);
+};
+
+const exportRoute = async (q: QueryReader): Promise<ApiResponse> => {
+  const groupId = q.string("group");
+  const table = q.oneOf("data", EXPORT_TABLES);
+  const format = q.oneOf<ExportFormat>("format", ["csv", "json"]) ?? "json";
+  if (format === "csv" && !table) q.errors.push("csv exports need data=goals, sprints or jobs");
+  if (q.errors.length > 0) return fail(400, "Invalid query", q.errors);
+
+  const contents = format === "csv" ? await exportCsv(table!, groupId) : await exportJson(table, groupId);
+  return {
+    status: 200,
+    body: null,
+    file: {
+      name: exportFileName(table, format),
+      contentType: format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+      contents,
+    },
+  };
+};
+
+const route = async (path: string, query: Query): Promise<ApiResponse> => {
+  const q = createQueryReader(query);
+  const userMatch = path.match(/^\/api\/users\/([^/]+)$/);
+
+  if (path === "/api/groups") return listGroupsRoute();
+  if (path === "/api/users") return listUsersRoute(q);
+  if (userMatch) return userStatsRoute(q, decodeURIComponent(userMatch[1]));
+  if (path === "/api/goals") return listGoalsRoute(q);
+  if (path === "/api/sprints") return listSprintsRoute(q);
+  if (path === "/api/stats") return statsRoute(q);
+  if (path === "/api/jobs") return listJobsRoute(q);
+  if (path === "/api/export") return exportRoute(q);
+  return fail(404, `Unknown endpoint ${path}`);
+};
+
+const send = (res: ServerResponse, { status, body, file }: ApiResponse) => {
+  if (file) {
+    res.writeHead(status, {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.name}"`,
+    });
+    res.end(file.contents);
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+// Handle a request under /api
+export const handleApiRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  if (!apiToken) return send(res, fail(404, "API is disabled - set API_TOKEN to enable it"));
+  if (!isAuthorized(req)) {
+    res.setHeader("WWW-Authenticate", "Bearer");
+    return send(res, fail(401, "Missing or invalid API token"));
+  }
+  if (req.method !== "GET") return send(res, fail(405, "The API is read-only"));
+
+  const url = new URL(req.url ?? "/", "http://localhost");
+  try {
+    send(res, await route(url.pathname.replace(/\/$/, ""), url.searchParams));
+  } catch (error) {
+    console.error(`[API] ${url.pathname} failed:`, error);
+    send(res, fail(500, "Internal error"));
+  }
+};
@@ -3,8 +3,10 @@ import fs from "fs";
 import { isProduction } from "./config";
 import { PrismaStore } from "./store";
 
+import type { Client } from "whatsapp-web.js";
+
 // @ts-ignore - RemoteAuth exists at runtime but TypeScript types are incomplete
-const { Client, LocalAuth, RemoteAuth } = require("whatsapp-web.js");
+const { Client: WhatsAppClient, LocalAuth, RemoteAuth } = require("whatsapp-web.js");
 
 // Patch RemoteAuth to clean lockfiles after session extraction
 if (isProduction) {
@@ -62,7 +64,7 @@ try {
 }
 
 // Create and export WhatsApp client
-export const client = new Client({
+export const client: Client = new WhatsAppClient({
   authStrategy,
   puppeteer: {
     headless: true,
@@ -80,8 +82,16 @@ export const client = new Client({
   },
 });
 
+// Client used for sending - replaceable with a fake WhatsApp client in tests
+let activeClient: Client = client;
+
+export const setClient = (replacement: Client) => {
+  activeClient = replacement;
+};
+
 // Helper to safely get a chat with retry
 export const safelyGetChat = async (chatId: string) => {
+  const client = activeClient;
   try {
     if (!client.info || !client.info.wid) {
       console.error("Client is not ready for scheduled task");
@@ -99,37 +109,8 @@ export const safelyGetChat = async (chatId: string) => {
   }
 };
 
-// Retry sending a scheduled message
-export const retryScheduledTask = async (
-  taskName: string,
-  messageText: string,
-  targetGroupId: string,
-  maxRetries: number = 3,
-  baseDelay: number = 60000
-) => {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`${taskName}: Attempt ${attempt}/${maxRetries}`);
-      const groupChat = await safelyGetChat(targetGroupId);
-      if (!groupChat) throw new Error("Unable to get target group chat");
-      const sentMessage = await groupChat.sendMessage(messageText, { sendSeen: false });
-      console.log(`${taskName}: Message sent successfully on attempt ${attempt}`);
-      return sentMessage;
-    } catch (error) {
-      console.error(`${taskName}: Attempt ${attempt} failed:`, error);
-      if (attempt < maxRetries) {
-        const delay = baseDelay * attempt;
-        console.log(`${taskName}: Retrying in ${delay / 1000} seconds...`);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-    }
-  }
-  console.error(`${taskName}: All ${maxRetries} attempts failed`);
-  return null;
-};
-
 // Get the client instance
-export const getClient = () => client;
+export const getClient = () => activeClient;
 
 // Clean stale lockfiles from previous runs
 export const cleanStaleLockfiles = () => {
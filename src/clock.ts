@@ -0,0 +1,13 @@
+// Current time for scheduling and goal logic - swappable so time-dependent
+// behaviour can run against a fixed or simulated clock
+let clock = (): Date => new Date();
+
+export const now = (): Date => clock();
+
+export const setClock = (fn: () => Date) => {
+  clock = fn;
+};
+
+export const resetClock = () => {
+  clock = () => new Date();
+};
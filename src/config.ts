@@ -11,12 +11,28 @@ export const BOT_CONFIG = {
   DEMO_COMMAND: "!bot demo",
   MONTHLY_COMMAND: "!bot monthly",
   GOALS_COMMAND: "!bot goals",
+  GOAL_ADD_COMMAND: "!bot goal add",
+  DONE_COMMAND: "!bot done",
+  DROP_COMMAND: "!bot drop",
+  EDIT_COMMAND: "!bot edit",
+  UNDO_COMMAND: "!bot undo",
   MENTOR_COMMAND: "!bot mentor",
+  OPTOUT_COMMAND: "!bot optout",
+  OPTIN_COMMAND: "!bot optin",
+  FORGET_COMMAND: "!bot forgetme",
+  MYDATA_COMMAND: "!bot mydata",
   STATS_COMMAND: "!bot stats",
   CHAT_COMMAND: "!bot chat",
   USERS_COMMAND: "!bot users",
+  MEMBER_COMMAND: "!bot member",
   INGEST_COMMAND: "!bot ingest",
-  TARGET_GROUP_ID: "",
+  GROUPS_COMMAND: "!bot groups",
+  SCHEDULE_COMMAND: "!bot schedule",
+  TEMPLATE_COMMAND: "!bot template",
+  TIMEZONE_COMMAND: "!bot timezone",
+  JOBS_COMMAND: "!bot jobs",
+  EXPORT_COMMAND: "!bot export",
+  IMPORT_COMMAND: "!bot import",
 };
 
 export const COMPLETION_KEYWORDS = [
@@ -32,7 +48,22 @@ export const COMPLETION_KEYWORDS = [
 
 export const KICKOFF_WINDOW_HOURS = 48;
 
+// Extracted goals count as confirmed if the member doesn't respond within this time
+export const GOAL_CONFIRM_TIMEOUT_MINUTES = 30;
+
 // Environment
 export const isProduction = process.env.NODE_ENV === "production";
 export const adminChatId = process.env.ADMIN_CHAT_ID;
-export const targetGroupId = process.env.TARGET_GROUP_ID;
+// IANA timezone for groups that haven't set their own (e.g. "Pacific/Auckland", "Europe/London")
+export const defaultTimezone = process.env.BOT_TIMEZONE || "Pacific/Auckland";
+// Bearer token for the read-only REST API on the health server (API disabled when unset)
+export const apiToken = process.env.API_TOKEN;
+// Password for the web admin dashboard at /admin (dashboard disabled when unset)
+export const dashboardPassword = process.env.DASHBOARD_PASSWORD;
+// Set to "false" to post the Sprint Review digest without an AI-written summary
+export const sprintDigestSummaries = process.env.SPRINT_DIGEST_AI !== "false";
+// Comma-separated allow-list of group chat IDs (empty = any group the bot is added to)
+export const targetGroupIds = (process.env.TARGET_GROUP_IDS || process.env.TARGET_GROUP_ID || "")
+  .split(",")
+  .map((id) => id.trim())
+  .filter(Boolean);
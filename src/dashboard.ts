@@ -0,0 +1,309 @@
+// Web admin dashboard on the health server - status, upcoming and missed posts, goal
+// boards and member histories, plus goal corrections and manual posts.
+// Logging in with DASHBOARD_PASSWORD sets a signed session cookie.
+import type { IncomingMessage, ServerResponse } from "http";
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { dashboardPassword } from "./config";
+import { now } from "./clock";
+import { botStatus } from "./state";
+import { getClientReady } from "./health";
+import { isLeader } from "./leader";
+import { getStoredGroups } from "./groupStore";
+import { getGroupSchedules } from "./scheduleStore";
+import { getActualNextPostDates, getJobLabel } from "./dateCalculator";
+import { getMissedJobs } from "./jobTracker";
+import { listSprints } from "./sprintStore";
+import type { GoalStatus } from "./goalStore";
+import { GOAL_STATUSES, correctGoal, deleteGoal, getGoal, getGoalHistory, getUserStats, listGoalUsers, listGoals } from "./goalStore";
+import type { ManualJobType } from "./handlers/commands";
+import { triggerPost } from "./handlers/commands";
+import { getMemberNames } from "./memberStore";
+import { MANUAL_JOBS, boardPage, errorPage, goalEditPage, loginPage, overviewPage, userPage } from "./dashboardViews";
+import { DEFAULT_TIMEZONE } from "./schedule";
+
+const SESSION_COOKIE = "koruclub_admin";
+const SESSION_HOURS = 12;
+const MAX_BODY_BYTES = 64 * 1024;
+// Enough for any one sprint's goals or member list
+const BOARD_LIMIT = { skip: 0, take: 1000 };
+// Failed logins allowed from one address before it is locked out for a while
+const MAX_LOGIN_FAILURES = 5;
+const LOGIN_LOCKOUT_MINUTES = 15;
+
+// Address -> failed logins since its last success, and when the latest one was
+const loginFailures = new Map<string, { count: number; lastAt: number }>();
+
+// Sessions are `<expiry ms>.<signature>` - signed with the password, so changing it logs everyone out
+const sign = (value: string) => createHmac("sha256", dashboardPassword ?? "").update(value).digest("hex");
+
+const safeEqual = (a: string, b: string) => {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+};
+
+const createSession = () => {
+  const expires = String(now().getTime() + SESSION_HOURS * 60 * 60 * 1000);
+  return `${expires}.${sign(expires)}`;
+};
+
+const readCookie = (req: IncomingMessage, name: string): string | undefined =>
+  (req.headers.cookie ?? "")
+    .split(";")
+    .map((part) => part.trim().split("="))
+    .find(([key]) => key === name)?.[1];
+
+const hasSession = (req: IncomingMessage): boolean => {
+  const [expires, signature] = (readCookie(req, SESSION_COOKIE) ?? "").split(".");
+  if (!expires || !signature || !safeEqual(signature, sign(expires))) return false;
+  return Number(expires) > now().getTime();
+};
+
+// SameSite=Strict keeps other sites from submitting the dashboard's forms with the session
+const sessionCookie = (value: string, maxAgeSeconds: number) =>
+  `${SESSION_COOKIE}=${value}; Path=/admin; HttpOnly; SameSite=Strict; Max-Age=${maxAgeSeconds}`;
+
+const readForm = (req: IncomingMessage): Promise<URLSearchParams> =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("Form too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => resolve(new URLSearchParams(body)));
+    req.on("error", reject);
+  });
+
+const sendHtml = (res: ServerResponse, html: string, status = 200) => {
+  res.writeHead(status, { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" });
+  res.end(html);
+};
+
+const redirect = (res: ServerResponse, location: string, headers: Record<string, string> = {}) => {
+  res.writeHead(303, { Location: location, ...headers });
+  res.end();
+};
+
+// Redirect with a one-line message shown at the top of the next page
+const redirectWithNotice = (res: ServerResponse, location: string, notice: string) =>
+  redirect(res, `${location}${location.includes("?") ? "&" : "?"}notice=${encodeURIComponent(notice)}`);
+
+const notFound = (res: ServerResponse, what: string) => sendHtml(res, errorPage(what), 404);
+
+const groupName = async (groupId: string) => (await getStoredGroups()).find((g) => g.id === groupId);
+
+const showOverview = async (res: ServerResponse, query: URLSearchParams) => {
+  const groups = await Promise.all(
+    (await getStoredGroups()).map(async (group) => ({
+      groupId: group.id,
+      name: group.name,
+      timezone: group.timezone || DEFAULT_TIMEZONE,
+      schedulerActive: group.schedulerActive,
+      upcoming: getActualNextPostDates(await getGroupSchedules(group.id)),
+      missed: await getMissedJobs(group.id),
+    }))
+  );
+  sendHtml(
+    res,
+    overviewPage(
+      {
+        uptime: botStatus.uptime(),
+        connected: getClientReady(),
+        role: isLeader() ? "leader" : "standby",
+        groups,
+      },
+      query.get("notice") ?? undefined,
+      query.get("error") ?? undefined
+    )
+  );
+};
+
+const showBoard = async (res: ServerResponse, groupId: string, query: URLSearchParams) => {
+  const group = await groupName(groupId);
+  if (!group) return notFound(res, `Unknown group ${groupId}`);
+
+  const { sprints } = await listSprints(groupId, { skip: 0, take: 100 });
+  const requested = Number(query.get("sprint"));
+  const sprint = sprints.find((s) => s.number === requested) ?? sprints[0] ?? null;
+  const [{ goals }, { users }] = await Promise.all([
+    sprint ? listGoals({ groupId, sprintNumber: sprint.number }, BOARD_LIMIT) : Promise.resolve({ goals: [] }),
+    listGoalUsers(groupId, BOARD_LIMIT),
+  ]);
+
+  // Members together, active goals first within each member
+  const order: GoalStatus[] = ["active", "pending", "completed", "carried_over", "dropped"];
+  goals.sort((a, b) => a.userId.localeCompare(b.userId) || order.indexOf(a.status) - order.indexOf(b.status));
+
+  const names = await getMemberNames(groupId, [...new Set([...goals, ...users].map((g) => g.userId))]);
+
+  sendHtml(
+    res,
+    boardPage({ groupId, name: group.name, sprints, sprint, goals, users, names }, query.get("notice") ?? undefined)
+  );
+};
+
+const showUser = async (res: ServerResponse, groupId: string, userId: string, query: URLSearchParams) => {
+  const group = await groupName(groupId);
+  if (!group) return notFound(res, `Unknown group ${groupId}`);
+
+  const [stats, history, names] = await Promise.all([
+    getUserStats(groupId, userId),
+    getGoalHistory(groupId, userId, 6),
+    getMemberNames(groupId, [userId]),
+  ]);
+  sendHtml(
+    res,
+    userPage(
+      { groupId, name: group.name, userId, memberName: names.get(userId) ?? userId, stats, sprints: history.sprints },
+      query.get("notice") ?? undefined
+    )
+  );
+};
+
+const showGoal = async (res: ServerResponse, goalId: string) => {
+  const goal = await getGoal(goalId);
+  if (!goal) return notFound(res, `Unknown goal ${goalId}`);
+  sendHtml(res, goalEditPage(goal));
+};
+
+const saveGoal = async (req: IncomingMessage, res: ServerResponse, goalId: string) => {
+  const goal = await getGoal(goalId);
+  if (!goal) return notFound(res, `Unknown goal ${goalId}`);
+
+  const form = await readForm(req);
+  const text = form.get("text")?.trim();
+  const status = form.get("status") as GoalStatus;
+  const userId = form.get("userId")?.trim();
+  if (!text || !userId || !GOAL_STATUSES.includes(status)) {
+    return sendHtml(res, goalEditPage(goal, "Goal text, status and member ID are all required"), 400);
+  }
+
+  const updated = await correctGoal(goalId, { text, status, userId });
+  console.log(`[Dashboard] Corrected goal ${goalId}`);
+  redirectWithNotice(
+    res,
+    `/admin/groups/${encodeURIComponent(goal.groupId)}?sprint=${goal.sprintNumber}`,
+    `Saved "${updated?.text ?? text}"`
+  );
+};
+
+const removeGoal = async (res: ServerResponse, goalId: string) => {
+  const goal = await getGoal(goalId);
+  if (!goal) return notFound(res, `Unknown goal ${goalId}`);
+
+  await deleteGoal(goal.userId, goalId);
+  console.log(`[Dashboard] Deleted goal ${goalId}`);
+  redirectWithNotice(
+    res,
+    `/admin/groups/${encodeURIComponent(goal.groupId)}?sprint=${goal.sprintNumber}`,
+    `Deleted "${goal.text}"`
+  );
+};
+
+const postNow = async (req: IncomingMessage, res: ServerResponse, groupId: string) => {
+  const group = await groupName(groupId);
+  if (!group) return notFound(res, `Unknown group ${groupId}`);
+
+  const job = (await readForm(req)).get("job") as ManualJobType;
+  if (!MANUAL_JOBS.includes(job)) return redirect(res, `/admin?error=${encodeURIComponent(`Unknown job ${job}`)}`);
+
+  // Only queues the post - the leader's outbox delivers it, so this works on a standby too
+  try {
+    await triggerPost(groupId, job);
+  } catch (error) {
+    console.error(`[Dashboard] Failed to post ${job} to ${groupId}:`, error);
+    return redirect(res, `/admin?error=${encodeURIComponent(`Couldn't post ${getJobLabel(job)}: ${error}`)}`);
+  }
+  console.log(`[Dashboard] Triggered ${job} for ${groupId}`);
+  redirectWithNotice(res, "/admin", `Posting ${getJobLabel(job)} to ${group.name || groupId}`);
+};
+
+const hasExpired = (failures: { lastAt: number }) =>
+  now().getTime() - failures.lastAt > LOGIN_LOCKOUT_MINUTES * 60 * 1000;
+
+// Behind a reverse proxy every login shares the proxy's address, so a lockout there pauses
+// all logins - still what's wanted against password guessing
+const isLockedOut = (address: string): boolean => {
+  const failures = loginFailures.get(address);
+  if (!failures) return false;
+  if (hasExpired(failures)) {
+    loginFailures.delete(address);
+    return false;
+  }
+  return failures.count >= MAX_LOGIN_FAILURES;
+};
+
+// Forget addresses whose failures have expired, so the map only holds recent ones
+const pruneLoginFailures = () => {
+  for (const [address, failures] of loginFailures) {
+    if (hasExpired(failures)) loginFailures.delete(address);
+  }
+};
+
+const logIn = async (req: IncomingMessage, res: ServerResponse) => {
+  const address = req.socket.remoteAddress ?? "unknown";
+  if (isLockedOut(address)) {
+    console.warn(`[Dashboard] Login from ${address} refused - too many failed attempts`);
+    return sendHtml(res, loginPage(`Too many failed attempts - try again in ${LOGIN_LOCKOUT_MINUTES} minutes`), 429);
+  }
+
+  const password = (await readForm(req)).get("password") ?? "";
+  if (!safeEqual(password, dashboardPassword ?? "")) {
+    pruneLoginFailures();
+    const count = (loginFailures.get(address)?.count ?? 0) + 1;
+    loginFailures.set(address, { count, lastAt: now().getTime() });
+    console.warn(`[Dashboard] Failed login attempt from ${address} (${count})`);
+    return sendHtml(res, loginPage("Wrong password"), 401);
+  }
+  loginFailures.delete(address);
+  redirect(res, "/admin", { "Set-Cookie": sessionCookie(createSession(), SESSION_HOURS * 60 * 60) });
+};
+
+const route = async (req: IncomingMessage, res: ServerResponse, path: string, query: URLSearchParams) => {
+  const method = req.method ?? "GET";
+  const segments = path.split("/").slice(2).map(decodeURIComponent); // drop "" and "admin"
+  const [section, id, sub, subId] = segments;
+
+  if (method === "GET" && segments.length === 0) return showOverview(res, query);
+  if (section === "groups" && id) {
+    if (method === "GET" && segments.length === 2) return showBoard(res, id, query);
+    if (method === "GET" && sub === "users" && subId) return showUser(res, id, subId, query);
+    if (method === "POST" && sub === "trigger") return postNow(req, res, id);
+  }
+  if (section === "goals" && id) {
+    if (method === "GET" && segments.length === 2) return showGoal(res, id);
+    if (method === "POST" && segments.length === 2) return saveGoal(req, res, id);
+    if (method === "POST" && sub === "delete") return removeGoal(res, id);
+  }
+  notFound(res, `Nothing at ${path}`);
+};
+
+// Handle a request under /admin
+export const handleDashboardRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  if (!dashboardPassword) {
+    res.writeHead(404, { "Content-Type": "text/plain" });
+    res.end("Dashboard is disabled - set DASHBOARD_PASSWORD to enable it");
+    return;
+  }
+
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const path = url.pathname.replace(/\/$/, "");
+
+  try {
+    if (path === "/admin/login") {
+      if (req.method === "POST") return await logIn(req, res);
+      return hasSession(req) ? redirect(res, "/admin") : sendHtml(res, loginPage());
+    }
+    if (path === "/admin/logout" && req.method === "POST") {
+      return redirect(res, "/admin/login", { "Set-Cookie": sessionCookie("", 0) });
+    }
+    if (!hasSession(req)) return redirect(res, "/admin/login");
+
+    await route(req, res, path, url.searchParams);
+  } catch (error) {
+    console.error(`[Dashboard] ${req.method} ${url.pathname} failed:`, error);
+    if (!res.headersSent) sendHtml(res, errorPage("Something went wrong - check the server logs"), 500);
+  }
+};
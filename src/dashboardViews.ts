@@ -0,0 +1,296 @@
+// HTML pages for the web admin dashboard - plain server-rendered markup, no client scripts
+import type { Goal, GoalUser, GoalStatus } from "./goalStore";
+import { GOAL_STATUSES } from "./goalStore";
+import type { JobRun } from "./jobTracker";
+import type { NextPostDate } from "./dateCalculator";
+import { getJobLabel } from "./dateCalculator";
+import type { JobType } from "./dateCalculator";
+import type { Sprint } from "./sprintStore";
+import type { ManualJobType } from "./handlers/commands";
+import { formatDate } from "./utils";
+
+export interface GroupOverview {
+  groupId: string;
+  name: string;
+  timezone: string;
+  schedulerActive: boolean;
+  upcoming: NextPostDate[];
+  missed: JobRun[];
+}
+
+export interface OverviewData {
+  uptime: string;
+  connected: boolean;
+  role: "leader" | "standby";
+  groups: GroupOverview[];
+}
+
+export interface BoardData {
+  groupId: string;
+  name: string;
+  sprints: Sprint[];
+  sprint: Sprint | null;
+  goals: Goal[];
+  users: GoalUser[];
+  names: Map<string, string>; // member display names by user ID
+}
+
+export interface UserData {
+  groupId: string;
+  name: string;
+  userId: string;
+  memberName: string;
+  stats: { totalGoals: number; completedGoals: number; completionRate: number; currentStreak: number };
+  sprints: { sprintNumber: number; goals: Goal[]; completed: number; total: number }[];
+}
+
+export const MANUAL_JOBS: ManualJobType[] = ["monday", "friday", "demo", "monthEnd"];
+
+const STATUS_ICONS: Record<GoalStatus, string> = {
+  pending: "⏳",
+  active: "🎯",
+  completed: "✅",
+  carried_over: "↪️",
+  dropped: "🗑️",
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const enc = encodeURIComponent;
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 0; color: #1f2933; background: #f5f7fa; }
+  header { background: #0b6e4f; color: #fff; padding: 0.75rem 1.5rem; display: flex; align-items: center; gap: 1.5rem; }
+  header a { color: #fff; text-decoration: none; font-weight: 600; }
+  header form { margin-left: auto; }
+  main { max-width: 960px; margin: 0 auto; padding: 1.5rem; }
+  section { background: #fff; border-radius: 8px; padding: 1rem 1.25rem; margin-bottom: 1rem; box-shadow: 0 1px 2px rgba(0,0,0,0.08); }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 0.35rem 0.5rem; border-bottom: 1px solid #e4e7eb; vertical-align: top; }
+  .notice { background: #e3f9e5; border: 1px solid #91e697; padding: 0.5rem 1rem; border-radius: 6px; margin-bottom: 1rem; }
+  .error { background: #ffe3e3; border-color: #ff9b9b; }
+  .muted { color: #7b8794; }
+  button { cursor: pointer; }
+  input[type=text], select { padding: 0.3rem; min-width: 16rem; }
+`;
+
+const layout = (title: string, body: string, notice?: string, error?: string): string => `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} - KoruClub admin</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+  <a href="/admin">🥝 KoruClub admin</a>
+  <form method="post" action="/admin/logout"><button type="submit">Log out</button></form>
+</header>
+<main>
+${notice ? `<p class="notice">${escapeHtml(notice)}</p>` : ""}
+${error ? `<p class="notice error">${escapeHtml(error)}</p>` : ""}
+<h1>${escapeHtml(title)}</h1>
+${body}
+</main>
+</body>
+</html>`;
+
+export const loginPage = (error?: string): string => `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Log in - KoruClub admin</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<main>
+<section>
+<h1>🥝 KoruClub admin</h1>
+${error ? `<p class="notice error">${escapeHtml(error)}</p>` : ""}
+<form method="post" action="/admin/login">
+  <label>Password <input type="password" name="password" autofocus required></label>
+  <button type="submit">Log in</button>
+</form>
+</section>
+</main>
+</body>
+</html>`;
+
+export const errorPage = (message: string): string =>
+  layout("Oops", `<section><p><a href="/admin">Back to the dashboard</a></p></section>`, undefined, message);
+
+const groupLabel = (name: string, groupId: string) => escapeHtml(name || groupId);
+
+const triggerForm = (groupId: string) => `
+<form method="post" action="/admin/groups/${enc(groupId)}/trigger">
+  <select name="job">
+    ${MANUAL_JOBS.map((job) => `<option value="${job}">${escapeHtml(getJobLabel(job))}</option>`).join("")}
+  </select>
+  <button type="submit">Post now</button>
+</form>`;
+
+const groupSection = (group: GroupOverview): string => {
+  const upcoming = group.upcoming.length
+    ? `<ul>${group.upcoming
+        .map((post) => `<li>${escapeHtml(post.label)}: ${escapeHtml(formatDate(post.nextDate, group.timezone))}</li>`)
+        .join("")}</ul>`
+    : `<p class="muted">No upcoming posts scheduled.</p>`;
+
+  const missed = group.missed.length
+    ? `<h3>⚠️ Missed posts</h3><ul>${group.missed
+        .map(
+          (run) =>
+            `<li>${escapeHtml(getJobLabel(run.jobType as JobType))} due ${escapeHtml(
+              formatDate(run.scheduledFor, group.timezone)
+            )}${run.catchUpAction === "asked" ? ` <span class="muted">(awaiting admin reply)</span>` : ""}</li>`
+        )
+        .join("")}</ul>`
+    : "";
+
+  return `<section>
+<h2>${groupLabel(group.name, group.groupId)}</h2>
+<p>${group.schedulerActive ? "🤖 Scheduler running" : "🛑 Scheduler stopped"} · 🌏 ${escapeHtml(group.timezone)} ·
+  <a href="/admin/groups/${enc(group.groupId)}">Goal board</a></p>
+<h3>Upcoming posts</h3>
+${upcoming}
+${missed}
+<h3>Post now</h3>
+${triggerForm(group.groupId)}
+</section>`;
+};
+
+export const overviewPage = (data: OverviewData, notice?: string, error?: string): string =>
+  layout(
+    "Status",
+    `<section>
+<p>⏱️ Uptime: ${escapeHtml(data.uptime)}</p>
+<p>📱 WhatsApp: ${data.connected ? "connected ✅" : "not connected ❌"}</p>
+<p>👑 This instance: ${data.role}</p>
+</section>
+${data.groups.length ? data.groups.map(groupSection).join("\n") : `<section><p class="muted">No groups registered yet.</p></section>`}`,
+    notice,
+    error
+  );
+
+const goalRow = (goal: Goal, groupId: string, names?: Map<string, string>) => `<tr>
+  <td>${STATUS_ICONS[goal.status]} ${escapeHtml(goal.status.replace("_", " "))}</td>
+  ${
+    names
+      ? `<td><a href="/admin/groups/${enc(groupId)}/users/${enc(goal.userId)}">${escapeHtml(names.get(goal.userId) ?? goal.userId)}</a></td>`
+      : ""
+  }
+  <td>${escapeHtml(goal.text)}</td>
+  <td><a href="/admin/goals/${enc(goal.id)}">Edit</a></td>
+</tr>`;
+
+const membersSection = (groupId: string, users: GoalUser[], names: Map<string, string>): string =>
+  users.length
+    ? `<section><h2>Members</h2><table>
+<tr><th>Member</th><th>Goals</th><th>Completed</th><th>Last goal</th></tr>
+${users
+  .map(
+    (u) => `<tr>
+  <td><a href="/admin/groups/${enc(groupId)}/users/${enc(u.userId)}">${escapeHtml(names.get(u.userId) ?? u.userId)}</a></td>
+  <td>${u.totalGoals}</td>
+  <td>${u.completedGoals}</td>
+  <td>${u.lastGoalAt ? escapeHtml(u.lastGoalAt.slice(0, 10)) : ""}</td>
+</tr>`
+  )
+  .join("\n")}
+</table></section>`
+    : "";
+
+export const boardPage = (data: BoardData, notice?: string): string => {
+  const sprintPicker = data.sprints.length
+    ? `<form method="get">
+  <label>Sprint <select name="sprint">
+    ${data.sprints
+      .map(
+        (s) =>
+          `<option value="${s.number}"${s.id === data.sprint?.id ? " selected" : ""}>Sprint ${s.number} (from ${escapeHtml(
+            s.startDate.toISOString().slice(0, 10)
+          )})</option>`
+      )
+      .join("")}
+  </select></label>
+  <button type="submit">Show</button>
+</form>`
+    : `<p class="muted">No sprints yet.</p>`;
+
+  const goals = data.goals.length
+    ? `<table>
+<tr><th>Status</th><th>Member</th><th>Goal</th><th></th></tr>
+${data.goals.map((goal) => goalRow(goal, data.groupId, data.names)).join("\n")}
+</table>`
+    : `<p class="muted">No goals in this sprint.</p>`;
+
+  return layout(
+    `${data.name || data.groupId} - ${data.sprint ? `Sprint ${data.sprint.number}` : "goals"}`,
+    `<section>${sprintPicker}</section>
+<section>${goals}</section>
+${membersSection(data.groupId, data.users, data.names)}`,
+    notice
+  );
+};
+
+export const userPage = (data: UserData, notice?: string): string => {
+  const history = data.sprints.length
+    ? data.sprints
+        .map(
+          (sprint) => `<section>
+<h2>Sprint ${sprint.sprintNumber} <span class="muted">(${sprint.completed}/${sprint.total} completed)</span></h2>
+${
+  sprint.goals.length
+    ? `<table>${sprint.goals.map((goal) => goalRow(goal, data.groupId)).join("\n")}</table>`
+    : `<p class="muted">No goals.</p>`
+}
+</section>`
+        )
+        .join("\n")
+    : `<section><p class="muted">No sprints yet.</p></section>`;
+
+  return layout(
+    data.memberName,
+    `<section>
+<p>👥 <a href="/admin/groups/${enc(data.groupId)}">${groupLabel(data.name, data.groupId)}</a> · <span class="muted">${escapeHtml(data.userId)}</span></p>
+<p>🎯 ${data.stats.totalGoals} goals · ✅ ${data.stats.completedGoals} completed (${data.stats.completionRate}%) · 🔥 ${data.stats.currentStreak} sprint streak</p>
+</section>
+${history}`,
+    notice
+  );
+};
+
+export const goalEditPage = (goal: Goal, error?: string): string =>
+  layout(
+    "Edit goal",
+    `<section>
+<p class="muted">Sprint ${goal.sprintNumber} · set ${escapeHtml(goal.createdAt.slice(0, 10))} ·
+  <a href="/admin/groups/${enc(goal.groupId)}/users/${enc(goal.userId)}">member history</a></p>
+<form method="post" action="/admin/goals/${enc(goal.id)}">
+  <p><label>Goal<br><input type="text" name="text" value="${escapeHtml(goal.text)}" required></label></p>
+  <p><label>Status<br><select name="status">
+    ${GOAL_STATUSES.map(
+      (status) => `<option value="${status}"${status === goal.status ? " selected" : ""}>${status.replace("_", " ")}</option>`
+    ).join("")}
+  </select></label></p>
+  <p><label>Member ID (to move a goal ingested for the wrong person)<br>
+    <input type="text" name="userId" value="${escapeHtml(goal.userId)}" required></label></p>
+  <button type="submit">Save</button>
+</form>
+</section>
+<section>
+<form method="post" action="/admin/goals/${enc(goal.id)}/delete">
+  <button type="submit">Delete goal</button> <span class="muted">for goals that should never have been recorded</span>
+</form>
+</section>`,
+    undefined,
+    error
+  );
@@ -0,0 +1,583 @@
+// Export goals, sprints and job runs as CSV or JSON, and import them back - for backups,
+// moving a club between deployments, or seeding a group from a spreadsheet of past goals
+import { createHash } from "crypto";
+import { db } from "./db";
+import { now } from "./clock";
+import type { GoalStatus } from "./goalStore";
+import { GOAL_STATUSES } from "./goalStore";
+import { ensureCurrentSprint } from "./sprintStore";
+import { RUN_STATUSES } from "./jobTracker";
+import { JOB_TYPES } from "./schedule";
+
+export type ExportFormat = "csv" | "json";
+export type ExportTable = "goals" | "sprints" | "jobs";
+
+export const EXPORT_TABLES: ExportTable[] = ["goals", "sprints", "jobs"];
+
+export interface GoalRow {
+  id: string;
+  groupId: string;
+  userId: string;
+  sprintNumber: number;
+  text: string;
+  status: string;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface SprintRow {
+  groupId: string;
+  number: number;
+  startDate: string;
+  endDate: string | null;
+}
+
+export interface JobRunRow {
+  id: string;
+  groupId: string;
+  jobType: string;
+  scheduledFor: string;
+  status: string;
+  executedAt: string | null;
+  skippedReason: string | null;
+  messageId: string | null;
+  error: string | null;
+  catchUpAction: string | null;
+}
+
+export interface ExportBundle {
+  version: 1;
+  exportedAt: string;
+  groupId: string | null;
+  sprints: SprintRow[];
+  goals: GoalRow[];
+  jobRuns: JobRunRow[];
+}
+
+const GOAL_COLUMNS: (keyof GoalRow)[] = ["id", "groupId", "userId", "sprintNumber", "text", "status", "createdAt", "completedAt"];
+const SPRINT_COLUMNS: (keyof SprintRow)[] = ["groupId", "number", "startDate", "endDate"];
+const JOB_RUN_COLUMNS: (keyof JobRunRow)[] = [
+  "id",
+  "groupId",
+  "jobType",
+  "scheduledFor",
+  "status",
+  "executedAt",
+  "skippedReason",
+  "messageId",
+  "error",
+  "catchUpAction",
+];
+
+// ============================================
+// CSV
+// ============================================
+
+const csvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = <T>(columns: (keyof T)[], rows: T[]): string =>
+  [columns.join(","), ...rows.map((row) => columns.map((column) => csvCell(row[column])).join(","))].join("\r\n") + "\r\n";
+
+// Parse CSV (RFC 4180 - quoted cells may contain commas, quotes and newlines) into rows of cells
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+};
+
+// Spreadsheet headers are matched loosely ("User ID", "user_id" and "userId" are the same)
+const GOAL_HEADER_ALIASES: Record<string, keyof GoalRow> = {
+  id: "id",
+  goalid: "id",
+  groupid: "groupId",
+  userid: "userId",
+  user: "userId",
+  member: "userId",
+  sprintnumber: "sprintNumber",
+  sprint: "sprintNumber",
+  text: "text",
+  goal: "text",
+  status: "status",
+  createdat: "createdAt",
+  completedat: "completedAt",
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, "");
+
+// ============================================
+// EXPORT
+// ============================================
+
+const scope = (groupId?: string) => (groupId ? { groupId } : {});
+
+const exportGoals = async (groupId?: string): Promise<GoalRow[]> => {
+  const goals = await db.goal.findMany({
+    where: scope(groupId),
+    include: { sprint: { select: { number: true } } },
+    orderBy: [{ groupId: "asc" }, { createdAt: "asc" }, { id: "asc" }],
+  });
+  return goals.map((g) => ({
+    id: g.id,
+    groupId: g.groupId,
+    userId: g.userId,
+    sprintNumber: g.sprint.number,
+    text: g.text,
+    status: g.status,
+    createdAt: g.createdAt.toISOString(),
+    completedAt: g.completedAt?.toISOString() ?? null,
+  }));
+};
+
+const exportSprints = async (groupId?: string): Promise<SprintRow[]> => {
+  const sprints = await db.sprint.findMany({
+    where: scope(groupId),
+    orderBy: [{ groupId: "asc" }, { number: "asc" }],
+  });
+  return sprints.map((s) => ({
+    groupId: s.groupId,
+    number: s.number,
+    startDate: s.startDate.toISOString(),
+    endDate: s.endDate?.toISOString() ?? null,
+  }));
+};
+
+const exportJobRuns = async (groupId?: string): Promise<JobRunRow[]> => {
+  const runs = await db.scheduledJobRun.findMany({
+    where: scope(groupId),
+    orderBy: [{ groupId: "asc" }, { scheduledFor: "asc" }, { id: "asc" }],
+  });
+  return runs.map((r) => ({
+    id: r.id,
+    groupId: r.groupId,
+    jobType: r.jobType,
+    scheduledFor: r.scheduledFor.toISOString(),
+    status: r.status,
+    executedAt: r.executedAt?.toISOString() ?? null,
+    skippedReason: r.skippedReason,
+    messageId: r.messageId,
+    error: r.error,
+    catchUpAction: r.catchUpAction,
+  }));
+};
+
+// Everything for one group (or every group) in one JSON document
+export const exportBundle = async (groupId?: string): Promise<ExportBundle> => {
+  const [sprints, goals, jobRuns] = await Promise.all([
+    exportSprints(groupId),
+    exportGoals(groupId),
+    exportJobRuns(groupId),
+  ]);
+  return { version: 1, exportedAt: now().toISOString(), groupId: groupId ?? null, sprints, goals, jobRuns };
+};
+
+// One table as CSV (a spreadsheet holds one table per file)
+export const exportCsv = async (table: ExportTable, groupId?: string): Promise<string> => {
+  switch (table) {
+    case "goals":
+      return toCsv(GOAL_COLUMNS, await exportGoals(groupId));
+    case "sprints":
+      return toCsv(SPRINT_COLUMNS, await exportSprints(groupId));
+    case "jobs":
+      return toCsv(JOB_RUN_COLUMNS, await exportJobRuns(groupId));
+  }
+};
+
+// One table (or with no table, everything) as JSON
+export const exportJson = async (table: ExportTable | undefined, groupId?: string): Promise<string> => {
+  const bundle = await exportBundle(groupId);
+  if (!table) return JSON.stringify(bundle, null, 2);
+  const rows = table === "goals" ? bundle.goals : table === "sprints" ? bundle.sprints : bundle.jobRuns;
+  return JSON.stringify(rows, null, 2);
+};
+
+// e.g. koruclub-goals-2026-10-18.csv
+export const exportFileName = (table: ExportTable | undefined, format: ExportFormat): string =>
+  `koruclub-${table ?? "export"}-${now().toISOString().slice(0, 10)}.${format}`;
+
+// ============================================
+// IMPORT
+// ============================================
+
+export interface ImportIssue {
+  row: number; // 1-based, counting the CSV header as row 1
+  id?: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  added: number;
+  duplicates: number; // already present with the same content - skipped
+  conflicts: ImportIssue[]; // already present with different content - left as it was
+  invalid: ImportIssue[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  goals: ImportResult;
+  jobRuns: ImportResult;
+  sprintsCreated: number[];
+  // Existing sprints moved up to make room for the created ones, which always come first
+  sprintsRenumbered: number;
+}
+
+interface ParsedImport {
+  goals: Record<string, unknown>[];
+  sprints: Record<string, unknown>[];
+  jobRuns: Record<string, unknown>[];
+  // Row number of the first data row (2 for CSV, after the header; 1 for JSON)
+  firstRow: number;
+}
+
+const emptyResult = (): ImportResult => ({ added: 0, duplicates: 0, conflicts: [], invalid: [] });
+
+/**
+ * Read an import file: a JSON export bundle, a JSON array of goals, or a CSV of goals.
+ * Throws if the file can't be read at all - row problems are reported by importData.
+ */
+export const parseImport = (contents: string): ParsedImport => {
+  const text = contents.replace(/^\uFEFF/, "").trim();
+
+  if (text.startsWith("{") || text.startsWith("[")) {
+    const data = JSON.parse(text) as unknown;
+    if (Array.isArray(data)) return { goals: data, sprints: [], jobRuns: [], firstRow: 1 };
+    const bundle = data as Partial<Record<"goals" | "sprints" | "jobRuns", unknown>>;
+    const list = (value: unknown) => (Array.isArray(value) ? (value as Record<string, unknown>[]) : []);
+    if (!Array.isArray(bundle.goals)) throw new Error("JSON must be an export bundle or an array of goals");
+    return { goals: list(bundle.goals), sprints: list(bundle.sprints), jobRuns: list(bundle.jobRuns), firstRow: 1 };
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error("The file is empty");
+  const columns = header.map((h) => GOAL_HEADER_ALIASES[normalizeHeader(h)]);
+  if (!columns.includes("userId") || !columns.includes("text")) {
+    throw new Error("CSV needs at least a userId and a text column");
+  }
+  const goals = rows.map((cells) => {
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      if (column && cells[i]?.trim()) row[column] = cells[i].trim();
+    });
+    return row;
+  });
+  return { goals, sprints: [], jobRuns: [], firstRow: 2 };
+};
+
+const asString = (value: unknown): string | undefined =>
+  value === null || value === undefined || String(value).trim() === "" ? undefined : String(value).trim();
+
+const asDate = (value: unknown): Date | null | "invalid" => {
+  const text = asString(value);
+  if (!text) return null;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? "invalid" : date;
+};
+
+// Stable ID for rows without one, so importing the same spreadsheet twice doesn't duplicate goals
+const importedGoalId = (groupId: string, userId: string, sprintNumber: number | null, text: string) =>
+  `import-${createHash("sha1").update(`${groupId}|${userId}|${sprintNumber ?? ""}|${text}`).digest("hex").slice(0, 20)}`;
+
+interface GoalCandidate {
+  row: number;
+  id: string;
+  userId: string;
+  sprintNumber: number | null; // as numbered in the file
+  text: string;
+  status: GoalStatus;
+  createdAt: Date | null;
+  completedAt: Date | null;
+}
+
+const validateGoal = (raw: Record<string, unknown>, row: number, groupId: string): GoalCandidate | ImportIssue => {
+  const userId = asString(raw.userId);
+  const text = asString(raw.text);
+  const sprintText = asString(raw.sprintNumber);
+  const sprintNumber = sprintText === undefined ? null : Number(sprintText);
+  const status = (asString(raw.status) ?? "active") as GoalStatus;
+  const createdAt = asDate(raw.createdAt);
+  const completedAt = asDate(raw.completedAt);
+  const id = asString(raw.id);
+
+  if (!userId || !userId.includes("@")) return { row, id, reason: "userId must be a WhatsApp ID like 447123456789@c.us" };
+  if (!text) return { row, id, reason: "text is empty" };
+  if (sprintNumber !== null && (!Number.isInteger(sprintNumber) || sprintNumber < 1)) {
+    return { row, id, reason: `invalid sprint number "${sprintText}"` };
+  }
+  if (!GOAL_STATUSES.includes(status)) return { row, id, reason: `status must be one of ${GOAL_STATUSES.join(", ")}` };
+  if (createdAt === "invalid") return { row, id, reason: "createdAt is not a date" };
+  if (completedAt === "invalid") return { row, id, reason: "completedAt is not a date" };
+
+  return {
+    row,
+    id: id ?? importedGoalId(groupId, userId, sprintNumber, text),
+    userId,
+    sprintNumber,
+    text,
+    status,
+    createdAt,
+    completedAt,
+  };
+};
+
+// The status an imported goal is stored with - see importData
+const importedStatus = (status: GoalStatus): GoalStatus =>
+  status === "active" || status === "pending" ? "dropped" : status;
+
+const isIssue = (value: object): value is ImportIssue => "reason" in value;
+
+/**
+ * Import a parsed file into a group. Rows are validated first; goals and job runs whose
+ * ID already exists are skipped as duplicates when identical and reported as conflicts
+ * when they differ. With dryRun, nothing is written and the report says what would happen.
+ *
+ * Goals are placed in sprints by date, never by the file's sprint numbers (another
+ * deployment numbers its sprints differently): a file sprint's start date, or a goal's
+ * createdAt when it has no sprint, picks the group's sprint running at that time. Goals
+ * from before the group's first sprint get new sprints, numbered ahead of the existing ones.
+ * Imports only add history - anything dated in the current sprint is rejected, so an
+ * import never changes the sprint members are working in. For the same reason, goals
+ * still open (active, pending or without a status) are stored as dropped: their sprint
+ * is over, and an open goal there would be carried over into the current one.
+ */
+export const importData = async (groupId: string, parsed: ParsedImport, dryRun = false): Promise<ImportReport> => {
+  const report: ImportReport = {
+    dryRun,
+    goals: emptyResult(),
+    jobRuns: emptyResult(),
+    sprintsCreated: [],
+    sprintsRenumbered: 0,
+  };
+
+  // A group without sprints gets its first one before importing, so imports all sit before it
+  const existingSprints = await db.sprint.findMany({ where: { groupId }, orderBy: { number: "asc" } });
+  const currentStart = existingSprints.at(-1)?.startDate ?? now();
+
+  // Validate goals and drop repeats within the file
+  const candidates: GoalCandidate[] = [];
+  const seen = new Map<string, GoalCandidate>();
+  parsed.goals.forEach((raw, index) => {
+    const result = validateGoal(raw, index + parsed.firstRow, groupId);
+    if (isIssue(result)) {
+      report.goals.invalid.push(result);
+      return;
+    }
+    const earlier = seen.get(result.id);
+    if (earlier) {
+      if (earlier.text === result.text && earlier.userId === result.userId && earlier.status === result.status) {
+        report.goals.duplicates++;
+      } else {
+        report.goals.conflicts.push({ row: result.row, id: result.id, reason: `same ID as row ${earlier.row}` });
+      }
+      return;
+    }
+    seen.set(result.id, result);
+    candidates.push(result);
+  });
+
+  // When each of the file's sprints started - its sprint row, else its earliest goal
+  const fileSprintStarts = new Map<number, Date>();
+  for (const { sprintNumber, createdAt } of candidates) {
+    const start = sprintNumber === null ? undefined : fileSprintStarts.get(sprintNumber);
+    if (sprintNumber !== null && createdAt && (!start || createdAt < start)) {
+      fileSprintStarts.set(sprintNumber, createdAt);
+    }
+  }
+  for (const row of parsed.sprints) {
+    const startDate = asDate(row.startDate);
+    if (startDate instanceof Date) fileSprintStarts.set(Number(row.number), startDate);
+  }
+
+  // Place each goal by date: an existing sprint's ID, or the key of a sprint to create
+  const placed = candidates.map((candidate) => {
+    const date =
+      candidate.sprintNumber === null ? candidate.createdAt : fileSprintStarts.get(candidate.sprintNumber) ?? null;
+    const existing = date ? existingSprints.filter((sprint) => sprint.startDate <= date).at(-1) : undefined;
+    const target = existing?.id ?? (candidate.sprintNumber === null ? "new:undated" : `new:${candidate.sprintNumber}`);
+    return { candidate, date, target };
+  });
+
+  // Compare against goals already stored, then keep the new ones that belong to a past sprint
+  const stored = await db.goal.findMany({ where: { id: { in: candidates.map((c) => c.id) } } });
+  const storedById = new Map(stored.map((g) => [g.id, g]));
+  const newGoals: { candidate: GoalCandidate; date: Date; target: string }[] = [];
+  for (const { candidate, date, target } of placed) {
+    const { row, id } = candidate;
+    const existing = storedById.get(id);
+    if (existing) {
+      const differences = [
+        existing.groupId !== groupId && "group",
+        existing.userId !== candidate.userId && "member",
+        date && existing.sprintId !== target && "sprint",
+        existing.text !== candidate.text && "text",
+        ![candidate.status, importedStatus(candidate.status)].includes(existing.status as GoalStatus) && "status",
+      ].filter(Boolean);
+      if (differences.length === 0) {
+        report.goals.duplicates++;
+      } else {
+        report.goals.conflicts.push({ row, id, reason: `stored goal has a different ${differences.join(", ")}` });
+      }
+    } else if (!date) {
+      report.goals.invalid.push({ row, id, reason: "no date to place it by - add createdAt, or the sprint's start date" });
+    } else if (date >= currentStart) {
+      report.goals.invalid.push({ row, id, reason: "dated in the current sprint - imports only add past sprints" });
+    } else {
+      newGoals.push({ candidate, date, target });
+    }
+  }
+
+  // Sprints to create, in start order - they all started before the group's first sprint
+  const newSprintStarts = new Map<string, Date>();
+  for (const { target, date } of newGoals) {
+    const start = newSprintStarts.get(target);
+    if (target.startsWith("new:") && (!start || date < start)) newSprintStarts.set(target, date);
+  }
+  const newSprints = [...newSprintStarts].sort(([, a], [, b]) => a.getTime() - b.getTime());
+  report.sprintsCreated = newSprints.map((_, index) => index + 1);
+  report.sprintsRenumbered = newSprints.length > 0 ? existingSprints.length : 0;
+
+  // Validate job runs (JSON bundles only)
+  const newRuns: JobRunRow[] = [];
+  const runRows = parsed.jobRuns.map((raw, index) => ({ raw, row: index + parsed.firstRow }));
+  const storedRuns = await db.scheduledJobRun.findMany({
+    where: { id: { in: runRows.map(({ raw }) => asString(raw.id)).filter((id): id is string => !!id) } },
+  });
+  const storedRunsById = new Map(storedRuns.map((r) => [r.id, r]));
+  const seenRuns = new Set<string>();
+  for (const { raw, row } of runRows) {
+    const id = asString(raw.id);
+    const jobType = asString(raw.jobType);
+    const status = asString(raw.status);
+    const scheduledFor = asDate(raw.scheduledFor);
+    const executedAt = asDate(raw.executedAt);
+    if (!id) {
+      report.jobRuns.invalid.push({ row, reason: "id is missing" });
+    } else if (!jobType || !JOB_TYPES.includes(jobType as (typeof JOB_TYPES)[number])) {
+      report.jobRuns.invalid.push({ row, id, reason: `jobType must be one of ${JOB_TYPES.join(", ")}` });
+    } else if (!status || !RUN_STATUSES.includes(status)) {
+      report.jobRuns.invalid.push({ row, id, reason: `status must be one of ${RUN_STATUSES.join(", ")}` });
+    } else if (!scheduledFor || scheduledFor === "invalid" || executedAt === "invalid") {
+      report.jobRuns.invalid.push({ row, id, reason: "scheduledFor and executedAt must be dates" });
+    } else if (seenRuns.has(id)) {
+      report.jobRuns.duplicates++;
+    } else if (storedRunsById.has(id)) {
+      const existing = storedRunsById.get(id)!;
+      if (existing.status === status && existing.scheduledFor.getTime() === scheduledFor.getTime()) {
+        report.jobRuns.duplicates++;
+      } else {
+        report.jobRuns.conflicts.push({ row, id, reason: "stored run has a different status or time" });
+      }
+    } else {
+      seenRuns.add(id);
+      newRuns.push({
+        id,
+        groupId,
+        jobType,
+        scheduledFor: scheduledFor.toISOString(),
+        status,
+        executedAt: executedAt?.toISOString() ?? null,
+        skippedReason: asString(raw.skippedReason) ?? null,
+        messageId: asString(raw.messageId) ?? null,
+        error: asString(raw.error) ?? null,
+        catchUpAction: asString(raw.catchUpAction) ?? null,
+      });
+    }
+  }
+
+  report.goals.added = newGoals.length;
+  report.jobRuns.added = newRuns.length;
+  if (dryRun) return report;
+
+  if (existingSprints.length === 0 && newGoals.length > 0) await ensureCurrentSprint(groupId);
+
+  await db.$transaction(async (tx) => {
+    const sprintIds = new Map<string, string>();
+    if (newSprints.length > 0) {
+      // Move the existing sprints up, via negative numbers to stay clear of the (group, number) index
+      await tx.sprint.updateMany({ where: { groupId }, data: { number: { multiply: -1 } } });
+      await tx.sprint.updateMany({ where: { groupId }, data: { number: { decrement: newSprints.length } } });
+      await tx.sprint.updateMany({ where: { groupId }, data: { number: { multiply: -1 } } });
+
+      const first = await tx.sprint.findFirstOrThrow({ where: { groupId }, orderBy: { number: "asc" } });
+      for (const [index, [key, startDate]] of newSprints.entries()) {
+        // Each ends when the next starts - or at the file's end date, if that's earlier
+        const nextStart = newSprints[index + 1]?.[1] ?? first.startDate;
+        const row = parsed.sprints.find((s) => `new:${Number(s.number)}` === key);
+        const endDate = asDate(row?.endDate);
+        const created = await tx.sprint.create({
+          data: {
+            groupId,
+            number: index + 1,
+            startDate,
+            endDate: endDate instanceof Date && endDate < nextStart ? endDate : nextStart,
+          },
+        });
+        sprintIds.set(key, created.id);
+      }
+    }
+
+    await tx.goal.createMany({
+      data: newGoals.map(({ candidate: g, date, target }) => {
+        const createdAt = g.createdAt ?? date;
+        return {
+          id: g.id,
+          groupId,
+          userId: g.userId,
+          text: g.text,
+          status: importedStatus(g.status),
+          sprintId: sprintIds.get(target) ?? target,
+          createdAt,
+          completedAt: g.status === "completed" ? (g.completedAt ?? createdAt) : null,
+        };
+      }),
+    });
+
+    await tx.scheduledJobRun.createMany({
+      data: newRuns.map((r) => ({
+        ...r,
+        scheduledFor: new Date(r.scheduledFor),
+        executedAt: r.executedAt ? new Date(r.executedAt) : null,
+      })),
+    });
+  });
+
+  console.log(
+    `[Import] ${groupId}: ${newGoals.length} goal(s), ${newRuns.length} job run(s) and ${newSprints.length} sprint(s) added; ` +
+      `${report.goals.conflicts.length + report.jobRuns.conflicts.length} conflict(s)`
+  );
+  return report;
+};
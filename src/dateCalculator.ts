@@ -1,12 +1,9 @@
-// Calculate actual next post dates for scheduled jobs
-import {
-  isFirstOrThirdMonday,
-  isSecondOrFourthFriday,
-  isSecondOrFourthWednesday,
-  isSecondSaturday,
-  isLastDayOfMonth,
-  getNZDate,
-} from "./utils";
+// Calculate actual post dates for scheduled jobs from their schedule definitions
+import type { JobSchedule } from "./schedule";
+import { matchesRule } from "./schedule";
+import type { CalendarDay } from "./utils";
+import { addDays, daysBetween, getZonedDay, zonedTimeToInstant } from "./utils";
+import { now } from "./clock";
 
 export type JobType = "monday" | "friday" | "demo" | "checkIn" | "monthEnd";
 
@@ -24,183 +21,81 @@ const JOB_LABELS: Record<JobType, string> = {
   monthEnd: "Monthly Celebration",
 };
 
-const JOB_TIMES: Record<JobType, { hour: number; minute: number }> = {
-  monday: { hour: 9, minute: 0 },
-  friday: { hour: 15, minute: 30 },
-  demo: { hour: 10, minute: 0 },
-  checkIn: { hour: 9, minute: 0 },
-  monthEnd: { hour: 9, minute: 0 },
-};
+// Enough to find the next occurrence of any monthly or multi-week rule
+const SEARCH_WINDOW_DAYS = 120;
 
-function setTimeNZ(date: Date, hour: number, minute: number): Date {
-  const result = new Date(date);
-  result.setHours(hour, minute, 0, 0);
-  return result;
+// When a schedule posts on a calendar day (in the schedule's timezone)
+export function getPostTime(schedule: JobSchedule, day: CalendarDay): Date {
+  return zonedTimeToInstant(day, schedule.hour, schedule.minute, schedule.timezone);
 }
 
-function addDays(date: Date, days: number): Date {
-  const result = new Date(date);
-  result.setDate(result.getDate() + days);
-  return result;
-}
+// Next time this schedule posts strictly after `from`
+export function getNextPostDate(schedule: JobSchedule, from: Date): Date | null {
+  let day = getZonedDay(from, schedule.timezone);
 
-export function getNextFirstOrThirdMonday(from: Date): Date {
-  let candidate = new Date(from);
-  // Move to start of day
-  candidate.setHours(0, 0, 0, 0);
-  
-  // If it's past 9am on a valid Monday, start from tomorrow
-  const now = getNZDate();
-  if (isFirstOrThirdMonday(candidate) && candidate.toDateString() === now.toDateString()) {
-    if (now.getHours() >= 9) {
-      candidate = addDays(candidate, 1);
-    }
-  }
-  
-  // Search up to 31 days ahead
-  for (let i = 0; i < 31; i++) {
-    if (isFirstOrThirdMonday(candidate)) {
-      return setTimeNZ(candidate, 9, 0);
+  for (let i = 0; i < SEARCH_WINDOW_DAYS; i++) {
+    if (matchesRule(schedule.rule, day)) {
+      const postTime = getPostTime(schedule, day);
+      if (postTime > from) {
+        return postTime;
+      }
     }
-    candidate = addDays(candidate, 1);
+    day = addDays(day, 1);
   }
-  
-  // Fallback (shouldn't happen)
-  return setTimeNZ(from, 9, 0);
-}
 
-export function getNextSecondOrFourthFriday(from: Date): Date {
-  let candidate = new Date(from);
-  candidate.setHours(0, 0, 0, 0);
-  
-  const now = getNZDate();
-  if (isSecondOrFourthFriday(candidate) && candidate.toDateString() === now.toDateString()) {
-    if (now.getHours() >= 15 || (now.getHours() === 15 && now.getMinutes() >= 30)) {
-      candidate = addDays(candidate, 1);
-    }
-  }
-  
-  for (let i = 0; i < 31; i++) {
-    if (isSecondOrFourthFriday(candidate)) {
-      return setTimeNZ(candidate, 15, 30);
-    }
-    candidate = addDays(candidate, 1);
-  }
-  
-  return setTimeNZ(from, 15, 30);
+  return null;
 }
 
-export function getNextSecondOrFourthWednesday(from: Date): Date {
-  let candidate = new Date(from);
-  candidate.setHours(0, 0, 0, 0);
-  
-  const now = getNZDate();
-  if (isSecondOrFourthWednesday(candidate) && candidate.toDateString() === now.toDateString()) {
-    if (now.getHours() >= 9) {
-      candidate = addDays(candidate, 1);
-    }
-  }
-  
-  for (let i = 0; i < 31; i++) {
-    if (isSecondOrFourthWednesday(candidate)) {
-      return setTimeNZ(candidate, 9, 0);
-    }
-    candidate = addDays(candidate, 1);
-  }
-  
-  return setTimeNZ(from, 9, 0);
-}
+// Every time this schedule should have posted in the (from, to) window
+export function getScheduledDatesBetween(schedule: JobSchedule, from: Date, to: Date): Date[] {
+  const dates: Date[] = [];
+  const lastDay = getZonedDay(to, schedule.timezone);
 
-export function getNextSecondSaturday(from: Date): Date {
-  let candidate = new Date(from);
-  candidate.setHours(0, 0, 0, 0);
-  
-  const now = getNZDate();
-  if (isSecondSaturday(candidate) && candidate.toDateString() === now.toDateString()) {
-    if (now.getHours() >= 10) {
-      candidate = addDays(candidate, 1);
+  for (let day = getZonedDay(from, schedule.timezone); daysBetween(day, lastDay) >= 0; day = addDays(day, 1)) {
+    if (matchesRule(schedule.rule, day)) {
+      const postTime = getPostTime(schedule, day);
+      if (postTime > from && postTime < to) {
+        dates.push(postTime);
+      }
     }
   }
-  
-  for (let i = 0; i < 45; i++) {
-    if (isSecondSaturday(candidate)) {
-      return setTimeNZ(candidate, 10, 0);
-    }
-    candidate = addDays(candidate, 1);
-  }
-  
-  return setTimeNZ(from, 10, 0);
+
+  return dates;
 }
 
-export function getNextMonthEnd(from: Date): Date {
-  let candidate = new Date(from);
-  candidate.setHours(0, 0, 0, 0);
-  
-  const now = getNZDate();
-  if (isLastDayOfMonth(candidate) && candidate.toDateString() === now.toDateString()) {
-    if (now.getHours() >= 9) {
-      candidate = addDays(candidate, 1);
-    }
-  }
-  
-  for (let i = 0; i < 32; i++) {
-    if (isLastDayOfMonth(candidate)) {
-      return setTimeNZ(candidate, 9, 0);
+export function getActualNextPostDates(schedules: JobSchedule[]): NextPostDate[] {
+  const dates: NextPostDate[] = [];
+  const from = now();
+
+  for (const schedule of schedules) {
+    if (!schedule.enabled) continue;
+    const nextDate = getNextPostDate(schedule, from);
+    if (nextDate) {
+      dates.push({ jobType: schedule.jobType, nextDate, label: JOB_LABELS[schedule.jobType] });
     }
-    candidate = addDays(candidate, 1);
   }
-  
-  return setTimeNZ(from, 9, 0);
-}
 
-export function getActualNextPostDates(): NextPostDate[] {
-  const now = getNZDate();
-  
-  const dates: NextPostDate[] = [
-    { jobType: "monday", nextDate: getNextFirstOrThirdMonday(now), label: JOB_LABELS.monday },
-    { jobType: "friday", nextDate: getNextSecondOrFourthFriday(now), label: JOB_LABELS.friday },
-    { jobType: "demo", nextDate: getNextSecondSaturday(now), label: JOB_LABELS.demo },
-    { jobType: "checkIn", nextDate: getNextSecondOrFourthWednesday(now), label: JOB_LABELS.checkIn },
-    { jobType: "monthEnd", nextDate: getNextMonthEnd(now), label: JOB_LABELS.monthEnd },
-  ];
-  
   // Sort by date
   dates.sort((a, b) => a.nextDate.getTime() - b.nextDate.getTime());
-  
+
   return dates;
 }
 
-export function getMostRecentScheduledDate(jobType: JobType, before: Date): Date | null {
-  // Go back up to 14 days to find the most recent scheduled date for this job type
-  let candidate = new Date(before);
-  candidate.setHours(0, 0, 0, 0);
-  
-  const checker = getCheckerForJobType(jobType);
-  const time = JOB_TIMES[jobType];
-  
-  for (let i = 0; i < 14; i++) {
-    candidate = addDays(candidate, -1);
-    if (checker(candidate)) {
-      return setTimeNZ(candidate, time.hour, time.minute);
+export function getMostRecentScheduledDate(schedule: JobSchedule, before: Date): Date | null {
+  // Go back to find the most recent scheduled date for this job
+  let day = getZonedDay(before, schedule.timezone);
+
+  for (let i = 0; i < SEARCH_WINDOW_DAYS; i++) {
+    if (matchesRule(schedule.rule, day)) {
+      const postTime = getPostTime(schedule, day);
+      if (postTime < before) {
+        return postTime;
+      }
     }
+    day = addDays(day, -1);
   }
-  
-  return null;
-}
 
-function getCheckerForJobType(jobType: JobType): (date: Date) => boolean {
-  switch (jobType) {
-    case "monday":
-      return isFirstOrThirdMonday;
-    case "friday":
-      return isSecondOrFourthFriday;
-    case "demo":
-      return isSecondSaturday;
-    case "checkIn":
-      return isSecondOrFourthWednesday;
-    case "monthEnd":
-      return isLastDayOfMonth;
-  }
+  return null;
 }
 
 export function getJobLabel(jobType: JobType): string {
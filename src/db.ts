@@ -3,8 +3,18 @@ import { PrismaClient } from "@prisma/client";
 // Global singleton for Prisma client
 const globalForPrisma = globalThis as unknown as { prisma: PrismaClient };
 
-export const db = globalForPrisma.prisma || new PrismaClient();
+// Tests run against their own throwaway database
+const testDatabaseUrl = process.env.NODE_ENV === "test" ? process.env.TEST_DATABASE_URL : undefined;
+
+export const db =
+  globalForPrisma.prisma || new PrismaClient(testDatabaseUrl ? { datasourceUrl: testDatabaseUrl } : undefined);
 
 if (process.env.NODE_ENV !== "production") {
   globalForPrisma.prisma = db;
 }
+
+// Slice of a paginated listing
+export interface Page {
+  skip: number;
+  take: number;
+}
@@ -0,0 +1,56 @@
+// Confirmation of goals extracted from chat - members confirm, correct or discard
+// them before they count, and anything left unanswered is confirmed automatically
+import { GOAL_CONFIRM_TIMEOUT_MINUTES } from "./config";
+import { now } from "./clock";
+import { confirmExpiredPendingGoals } from "./goalStore";
+
+export const CONFIRM_REACTIONS = ["✅", "👍", "👌"];
+export const DISCARD_REACTIONS = ["❌", "👎"];
+
+export const CONFIRM_PROMPT = `_React ✅ to confirm, ❌ to discard, or reply to this message with *edit:* and your corrected goals (one per line)_`;
+
+export type ConfirmationReply = { action: "confirm" } | { action: "discard" } | { action: "replace"; goals: string[] };
+
+const CONFIRM_WORDS = /^(✅|👍|yes|yep|yup|y|ok|okay|confirm|correct|looks good|lgtm)[.!]*$/i;
+const DISCARD_WORDS = /^(❌|👎|no|nope|n|discard|cancel|delete|remove|none)[.!]*$/i;
+const EDIT_FORM = /^edit\s*:\s*([\s\S]*)$/i;
+
+// Parse a reply to a confirmation prompt: a yes/no, or "edit:" followed by the corrected
+// goal list. Anything else (e.g. "thanks!") is not an answer.
+export const parseConfirmationReply = (content: string): ConfirmationReply | null => {
+  const trimmed = content.trim();
+  if (CONFIRM_WORDS.test(trimmed)) return { action: "confirm" };
+  if (DISCARD_WORDS.test(trimmed)) return { action: "discard" };
+
+  const edit = trimmed.match(EDIT_FORM);
+  if (!edit) return null;
+
+  const goals = edit[1]
+    .split("\n")
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+    .filter(Boolean);
+
+  return goals.length > 0 ? { action: "replace", goals } : null;
+};
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+let sweepInterval: NodeJS.Timeout | null = null;
+
+const confirmExpiredGoals = async () => {
+  try {
+    const cutoff = new Date(now().getTime() - GOAL_CONFIRM_TIMEOUT_MINUTES * 60 * 1000);
+    const count = await confirmExpiredPendingGoals(cutoff);
+    if (count > 0) {
+      console.log(`[Confirm] Auto-confirmed ${count} pending goal(s)`);
+    }
+  } catch (error) {
+    console.error("[Confirm] Failed to auto-confirm pending goals:", error);
+  }
+};
+
+// Periodically confirm pending goals past the timeout (also catches up after downtime)
+export const startPendingGoalSweep = () => {
+  if (sweepInterval) return;
+  confirmExpiredGoals();
+  sweepInterval = setInterval(confirmExpiredGoals, SWEEP_INTERVAL_MS);
+};
@@ -0,0 +1,117 @@
+// Pre-review prompts asking each member what to do with their unfinished goals
+import { db } from "./db";
+import { safelyGetChat } from "./client";
+import { queueMessage, onDelivered } from "./outbox";
+import { getActiveGoals, getUsersWithActiveGoals } from "./goalStore";
+import { getMember } from "./memberStore";
+import { claimSprintReview, ensureCurrentSprint } from "./sprintStore";
+
+export type LeftoverAction = "keep" | "drop" | "done";
+
+export interface LeftoverReview {
+  id: string;
+  groupId: string;
+  userId: string;
+  chatId: string;
+  goalIds: string[];
+  promptMessageId: string | null;
+}
+
+// Prompts are matched by message ID once delivered - replies can't quote them before that
+onDelivered("leftoverReview", async (hook, messageId) => {
+  if (!messageId) return;
+  await db.leftoverReview.updateMany({
+    where: { id: hook.reviewId as string },
+    data: { promptMessageId: messageId },
+  });
+});
+
+// The review a prompt message asked for, while it's still open
+export const getPendingReview = async (promptMessageId: string): Promise<LeftoverReview | null> =>
+  db.leftoverReview.findFirst({ where: { promptMessageId } });
+
+// The newest open review sent to a DM chat, for answers that don't quote the prompt
+export const getLatestReviewInChat = async (chatId: string): Promise<LeftoverReview | null> =>
+  db.leftoverReview.findFirst({
+    where: { chatId, promptMessageId: { not: null } },
+    orderBy: { createdAt: "desc" },
+  });
+
+export const clearPendingReview = async (id: string): Promise<void> => {
+  await db.leftoverReview.deleteMany({ where: { id } });
+};
+
+// Close a group's open reviews. Unanswered goals are carried over at the next kickoff, so the
+// prompts' goal IDs are stale once a new sprint opens.
+export const clearGroupReviews = async (groupId: string): Promise<void> => {
+  await db.leftoverReview.deleteMany({ where: { groupId } });
+};
+
+// DM each member with unfinished goals and ask them to keep, drop or complete them - once
+// per sprint, however many times the Friday post runs
+export const sendLeftoverGoalPrompts = async (groupId: string): Promise<number> => {
+  const chat = await safelyGetChat(groupId);
+  if (!chat) return 0;
+
+  const sprint = await ensureCurrentSprint(groupId);
+  if (!(await claimSprintReview(sprint.id))) {
+    console.log(`[Review] Leftover goal prompts already sent for sprint #${sprint.number} of ${groupId}`);
+    return 0;
+  }
+
+  // Prompts from the previous review are stale once a new round goes out
+  await clearGroupReviews(groupId);
+
+  const userIds = await getUsersWithActiveGoals(groupId);
+  let sent = 0;
+
+  for (const userId of userIds) {
+    try {
+      const goals = await getActiveGoals(groupId, userId);
+      if (goals.length === 0) continue;
+
+      const member = await getMember(groupId, userId);
+      const chatId = member?.phoneId ?? userId;
+      const review = await db.leftoverReview.create({
+        data: { groupId, userId, chatId, goalIds: goals.map((g) => g.id) },
+      });
+
+      const goalsList = goals.map((g, i) => `${i + 1}. ${g.text}`).join("\n");
+      await queueMessage(
+        chatId,
+        `📋 You have ${goals.length} unfinished goal${goals.length > 1 ? "s" : ""} in *${chat.name}*:\n\n${goalsList}\n\n` +
+          `_Reply to this message with *done*, *drop* or *keep* and the goal numbers (e.g. "done 1, drop 2" or "keep all"). ` +
+          `Anything left unanswered carries over to the next sprint._`,
+        { key: `review:${sprint.id}:${userId}`, onDelivered: { type: "leftoverReview", reviewId: review.id } }
+      );
+      sent++;
+    } catch (error) {
+      console.error(`[Review] Failed to send leftover goals prompt to ${userId}:`, error);
+    }
+  }
+
+  console.log(`[Review] Queued ${sent} leftover goal prompt(s) for ${groupId}`);
+  return sent;
+};
+
+// Parse replies like "done 1, drop 2 3" or "keep all" into goal index -> action
+export const parseLeftoverReply = (content: string, goalCount: number): Map<number, LeftoverAction> => {
+  const actions = new Map<number, LeftoverAction>();
+  const pattern = /\b(keep|drop|done)\b\s*((?:all\b|\d+)(?:\s*(?:,|and|&)?\s*\d+)*)/gi;
+
+  for (const match of content.matchAll(pattern)) {
+    const action = match[1].toLowerCase() as LeftoverAction;
+    const target = match[2].toLowerCase();
+    const indexes = target.startsWith("all")
+      ? Array.from({ length: goalCount }, (_, i) => i)
+      : (target.match(/\d+/g) ?? []).map((n) => parseInt(n, 10) - 1);
+
+    for (const index of indexes) {
+      if (index >= 0 && index < goalCount) {
+        actions.set(index, action);
+      }
+    }
+  }
+
+  return actions;
+};
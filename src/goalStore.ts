@@ -1,63 +1,88 @@
 import { db } from "./db";
-import type { Goal as PrismaGoal } from "@prisma/client";
+import type { Page } from "./db";
+import type { Goal as PrismaGoal, Prisma } from "@prisma/client";
+import { now } from "./clock";
+import { goalEvents } from "./metrics";
+import { getMemberMap, getMemberNames, getOptedOutUserIds, memberName } from "./memberStore";
+import { ensureCurrentSprint, getCurrentSprint, getCurrentSprints, getRecentSprints } from "./sprintStore";
+
+// "pending" goals were extracted from chat and await the member's confirmation
+export type GoalStatus = "pending" | "active" | "completed" | "carried_over" | "dropped";
+
+export const GOAL_STATUSES: GoalStatus[] = ["pending", "active", "completed", "carried_over", "dropped"];
 
 export interface Goal {
   id: string;
+  groupId: string;
   userId: string;
   text: string;
-  status: "active" | "completed" | "carried_over";
+  status: GoalStatus;
   createdAt: string;
   completedAt: string | null;
+  sprintId: string;
   sprintNumber: number;
 }
 
+// Include the sprint number with every goal query
+const goalInclude = { sprint: { select: { number: true } } } as const;
+
+// Unconfirmed goals are left out of history and stats
+const confirmedOnly = { status: { not: "pending" } } as const;
+
 // Convert Prisma Goal to our Goal interface
-const toGoal = (g: PrismaGoal): Goal => ({
+const toGoal = (g: PrismaGoal & { sprint: { number: number } }): Goal => ({
   id: g.id,
+  groupId: g.groupId,
   userId: g.userId,
   text: g.text,
-  status: g.status as "active" | "completed" | "carried_over",
+  status: g.status as GoalStatus,
   createdAt: g.createdAt.toISOString(),
   completedAt: g.completedAt?.toISOString() ?? null,
-  sprintNumber: g.sprintNum,
+  sprintId: g.sprintId,
+  sprintNumber: g.sprint.number,
 });
 
-// Get current sprint number based on ISO week
-export const getCurrentSprintNumber = (): number => {
-  const now = new Date();
-  const d = new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
-  const dayNum = d.getUTCDay() || 7;
-  d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-  const weekNum = Math.ceil(((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
-  return Math.ceil(weekNum / 2);
-};
-
 // Initialize goals (just logs count)
 export const loadGoals = async (): Promise<void> => {
   const count = await db.goal.count();
   console.log(`Goals DB ready: ${count} goals in database`);
 };
 
+// Assign goals recorded before multi-group support to a group
+export const claimUnscopedGoals = async (groupId: string): Promise<number> => {
+  const result = await db.goal.updateMany({
+    where: { groupId: "" },
+    data: { groupId },
+  });
+  return result.count;
+};
+
 // Add goals for a user
-export const addGoals = async (userId: string, goalTexts: string[]): Promise<Goal[]> => {
-  const sprintNum = getCurrentSprintNumber();
-  const now = new Date();
+export const addGoals = async (
+  groupId: string,
+  userId: string,
+  goalTexts: string[],
+  status: "active" | "pending" = "active"
+): Promise<Goal[]> => {
+  const sprint = await ensureCurrentSprint(groupId);
+  const createdAt = now();
   const newGoals: Goal[] = [];
 
   for (let idx = 0; idx < goalTexts.length; idx++) {
     const text = goalTexts[idx];
-    const id = `${userId}-${sprintNum}-${Date.now()}-${idx}`;
+    const id = `${userId}-${sprint.number}-${Date.now()}-${idx}`;
 
     const created = await db.goal.create({
       data: {
         id,
+        groupId,
         userId,
         text,
-        status: "active",
-        sprintNum,
-        createdAt: now,
+        status,
+        sprintId: sprint.id,
+        createdAt,
       },
+      include: goalInclude,
     });
 
     newGoals.push(toGoal(created));
@@ -66,23 +91,28 @@ export const addGoals = async (userId: string, goalTexts: string[]): Promise<Goa
   return newGoals;
 };
 
-// Get active goals for a user
-export const getActiveGoals = async (userId: string): Promise<Goal[]> => {
+// Get active goals for a user (oldest first, matching the numbered !bot goals list)
+export const getActiveGoals = async (groupId: string, userId: string): Promise<Goal[]> => {
   const goals = await db.goal.findMany({
-    where: { userId, status: "active" },
+    where: { groupId, userId, status: "active" },
+    include: goalInclude,
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
   });
   return goals.map(toGoal);
 };
 
 // Get goals for current sprint
-export const getCurrentSprintGoals = async (userId: string): Promise<Goal[]> => {
-  const currentSprint = getCurrentSprintNumber();
+export const getCurrentSprintGoals = async (groupId: string, userId: string): Promise<Goal[]> => {
+  const currentSprint = await getCurrentSprint(groupId);
+  if (!currentSprint) return [];
   const goals = await db.goal.findMany({
     where: {
+      groupId,
       userId,
-      sprintNum: currentSprint,
+      sprintId: currentSprint.id,
       status: "active",
     },
+    include: goalInclude,
   });
   return goals.map(toGoal);
 };
@@ -94,30 +124,195 @@ export const completeGoal = async (userId: string, goalId: string): Promise<Goal
       where: { id: goalId },
       data: {
         status: "completed",
-        completedAt: new Date(),
+        completedAt: now(),
       },
+      include: goalInclude,
     });
 
     if (updated.userId !== userId) {
       return null;
     }
 
+    goalEvents.inc({ event: "completed" });
     return toGoal(updated);
   } catch {
     return null;
   }
 };
 
+// Drop a goal the user no longer plans to do
+export const dropGoal = async (userId: string, goalId: string): Promise<Goal | null> => {
+  const goal = await db.goal.findUnique({ where: { id: goalId } });
+  if (!goal || goal.userId !== userId) {
+    return null;
+  }
+
+  const updated = await db.goal.update({
+    where: { id: goalId },
+    data: { status: "dropped" },
+    include: goalInclude,
+  });
+  return toGoal(updated);
+};
+
+// Change the text of one of the user's goals
+export const updateGoalText = async (userId: string, goalId: string, text: string): Promise<Goal | null> => {
+  const goal = await db.goal.findUnique({ where: { id: goalId } });
+  if (!goal || goal.userId !== userId) {
+    return null;
+  }
+
+  const updated = await db.goal.update({
+    where: { id: goalId },
+    data: { text },
+    include: goalInclude,
+  });
+  return toGoal(updated);
+};
+
+// Put a goal back to an earlier state (used by !bot undo)
+export const restoreGoal = async (
+  userId: string,
+  goalId: string,
+  previous: { text: string; status: GoalStatus; completedAt: string | null }
+): Promise<Goal | null> => {
+  const goal = await db.goal.findUnique({ where: { id: goalId } });
+  if (!goal || goal.userId !== userId) {
+    return null;
+  }
+
+  const updated = await db.goal.update({
+    where: { id: goalId },
+    data: {
+      text: previous.text,
+      status: previous.status,
+      completedAt: previous.completedAt ? new Date(previous.completedAt) : null,
+    },
+    include: goalInclude,
+  });
+  return toGoal(updated);
+};
+
+export const getGoal = async (goalId: string): Promise<Goal | null> => {
+  const goal = await db.goal.findUnique({ where: { id: goalId }, include: goalInclude });
+  return goal ? toGoal(goal) : null;
+};
+
+// Admin correction of any goal - e.g. an ingested goal with the wrong text, member or status
+export const correctGoal = async (
+  goalId: string,
+  changes: { text?: string; status?: GoalStatus; userId?: string }
+): Promise<Goal | null> => {
+  const goal = await db.goal.findUnique({ where: { id: goalId } });
+  if (!goal) {
+    return null;
+  }
+
+  const status = changes.status ?? goal.status;
+  const updated = await db.goal.update({
+    where: { id: goalId },
+    data: {
+      ...changes,
+      completedAt: status === "completed" ? (goal.completedAt ?? now()) : null,
+    },
+    include: goalInclude,
+  });
+  return toGoal(updated);
+};
+
+export const deleteGoal = async (userId: string, goalId: string): Promise<boolean> => {
+  const result = await db.goal.deleteMany({
+    where: { id: goalId, userId },
+  });
+  return result.count > 0;
+};
+
+// ============================================
+// UNDO - each member's last goal command, for !bot undo
+// ============================================
+
+export interface GoalUndo {
+  action: "add" | "done" | "drop" | "edit";
+  goals: Goal[]; // goals as they were before the change (as added, for "add")
+}
+
+// Kept in the database so an undo still works after a restart or leader handover
+export const setLastGoalChange = async (groupId: string, userId: string, change: GoalUndo): Promise<void> => {
+  const data = { action: change.action, goals: change.goals as unknown as Prisma.InputJsonValue, createdAt: now() };
+  await db.goalUndo.upsert({
+    where: { groupId_userId: { groupId, userId } },
+    update: data,
+    create: { groupId, userId, ...data },
+  });
+};
+
+// Returns and forgets the member's last goal change
+export const takeLastGoalChange = async (groupId: string, userId: string): Promise<GoalUndo | null> => {
+  const change = await db.goalUndo.findUnique({ where: { groupId_userId: { groupId, userId } } });
+  if (!change) return null;
+  // Only the request that removes it gets to apply it, so a repeated undo can't run twice
+  const { count } = await db.goalUndo.deleteMany({
+    where: { groupId, userId, createdAt: change.createdAt },
+  });
+  return count > 0 ? { action: change.action as GoalUndo["action"], goals: change.goals as unknown as Goal[] } : null;
+};
+
+// ============================================
+// PENDING GOALS - extracted goals awaiting confirmation
+// ============================================
+
+export const setGoalsConfirmMessage = async (goalIds: string[], messageId: string): Promise<void> => {
+  await db.goal.updateMany({
+    where: { id: { in: goalIds } },
+    data: { confirmMessageId: messageId },
+  });
+};
+
+// Pending goals listed in a confirmation prompt
+export const getPendingGoalsByMessage = async (messageId: string): Promise<Goal[]> => {
+  const goals = await db.goal.findMany({
+    where: { confirmMessageId: messageId, status: "pending" },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    include: goalInclude,
+  });
+  return goals.map(toGoal);
+};
+
+export const confirmPendingGoals = async (goalIds: string[]): Promise<number> => {
+  const result = await db.goal.updateMany({
+    where: { id: { in: goalIds }, status: "pending" },
+    data: { status: "active", confirmMessageId: null },
+  });
+  return result.count;
+};
+
+export const discardPendingGoals = async (goalIds: string[]): Promise<number> => {
+  const result = await db.goal.deleteMany({
+    where: { id: { in: goalIds }, status: "pending" },
+  });
+  return result.count;
+};
+
+// Confirm goals nobody responded to before the cutoff
+export const confirmExpiredPendingGoals = async (createdBefore: Date): Promise<number> => {
+  const result = await db.goal.updateMany({
+    where: { status: "pending", createdAt: { lt: createdBefore } },
+    data: { status: "active", confirmMessageId: null },
+  });
+  return result.count;
+};
+
 // Carry over incomplete goals to next sprint
-export const carryOverGoals = async (userId: string): Promise<Goal[]> => {
-  const currentSprint = getCurrentSprintNumber();
-  const now = new Date();
+export const carryOverGoals = async (groupId: string, userId: string): Promise<Goal[]> => {
+  const currentSprint = await ensureCurrentSprint(groupId);
+  const createdAt = now();
 
   const oldGoals = await db.goal.findMany({
     where: {
+      groupId,
       userId,
       status: "active",
-      sprintNum: { lt: currentSprint },
+      sprintId: { not: currentSprint.id },
     },
   });
 
@@ -135,30 +330,50 @@ export const carryOverGoals = async (userId: string): Promise<Goal[]> => {
 
     const newGoal = await db.goal.create({
       data: {
-        id: `${userId}-${currentSprint}-${Date.now()}-carried-${idx}`,
+        id: `${userId}-${currentSprint.number}-${Date.now()}-carried-${idx}`,
+        groupId,
         userId,
         text: old.text,
         status: "active",
-        sprintNum: currentSprint,
-        createdAt: now,
+        sprintId: currentSprint.id,
+        createdAt,
       },
+      include: goalInclude,
     });
 
     carriedOver.push(toGoal(newGoal));
   }
 
+  goalEvents.inc({ event: "carried_over" }, carriedOver.length);
   return carriedOver;
 };
 
-// Get sprint summary for a user
+// Carry over every user's incomplete goals into the group's current sprint
+export const carryOverAllGoals = async (groupId: string): Promise<number> => {
+  const userIds = await getUsersWithActiveGoals(groupId);
+  let count = 0;
+  for (const userId of userIds) {
+    const carried = await carryOverGoals(groupId, userId);
+    count += carried.length;
+  }
+  if (count > 0) {
+    console.log(`[Goals] Carried over ${count} unfinished goal(s) for ${userIds.length} user(s) in ${groupId}`);
+  }
+  return count;
+};
+
+// Get sprint summary for a user (defaults to the current sprint)
 export const getSprintSummary = async (
+  groupId: string,
   userId: string,
-  sprintNumber?: number
+  sprintId?: string
 ): Promise<{ completed: Goal[]; active: Goal[]; carriedOver: Goal[] }> => {
-  const sprint = sprintNumber ?? getCurrentSprintNumber();
+  const sprint = sprintId ?? (await getCurrentSprint(groupId))?.id;
+  if (!sprint) return { completed: [], active: [], carriedOver: [] };
 
   const goals = await db.goal.findMany({
-    where: { userId, sprintNum: sprint },
+    where: { groupId, userId, sprintId: sprint },
+    include: goalInclude,
   });
 
   const mapped = goals.map(toGoal);
@@ -170,10 +385,99 @@ export const getSprintSummary = async (
   };
 };
 
+// How many confirmed goals a sprint has, and how many of them are completed
+export const getSprintGoalCounts = async (
+  groupId: string,
+  sprintId: string
+): Promise<{ goals: number; completed: number }> => {
+  const [goals, completed] = await Promise.all([
+    db.goal.count({ where: { groupId, sprintId, ...confirmedOnly } }),
+    db.goal.count({ where: { groupId, sprintId, status: "completed" } }),
+  ]);
+  return { goals, completed };
+};
+
+// Members with confirmed goals in a sprint
+export const getSprintUserIds = async (groupId: string, sprintId: string): Promise<string[]> => {
+  const goals = await db.goal.findMany({
+    where: { groupId, sprintId, ...confirmedOnly },
+    select: { userId: true },
+    distinct: ["userId"],
+  });
+  return goals.map((g) => g.userId);
+};
+
+export interface GoalFilter {
+  groupId?: string;
+  userId?: string;
+  sprintNumber?: number;
+  // Pending (unconfirmed) goals are only listed when asked for by status, or with includePending
+  status?: GoalStatus;
+  includePending?: boolean;
+}
+
+// Goals matching a filter, newest first
+export const listGoals = async (filter: GoalFilter, page: Page): Promise<{ goals: Goal[]; total: number }> => {
+  const where = {
+    ...(filter.groupId ? { groupId: filter.groupId } : {}),
+    ...(filter.userId ? { userId: filter.userId } : {}),
+    ...(filter.sprintNumber !== undefined ? { sprint: { number: filter.sprintNumber } } : {}),
+    ...(filter.status ? { status: filter.status } : filter.includePending ? {} : confirmedOnly),
+  };
+  const [goals, total] = await Promise.all([
+    db.goal.findMany({ where, include: goalInclude, orderBy: [{ createdAt: "desc" }, { id: "asc" }], ...page }),
+    db.goal.count({ where }),
+  ]);
+  return { goals: goals.map(toGoal), total };
+};
+
+export interface GoalUser {
+  groupId: string;
+  userId: string;
+  totalGoals: number;
+  completedGoals: number;
+  lastGoalAt: string | null;
+}
+
+// Everyone who has set a goal, per group
+export const listGoalUsers = async (groupId: string | undefined, page: Page): Promise<{ users: GoalUser[]; total: number }> => {
+  const where = { ...(groupId ? { groupId } : {}), ...confirmedOnly };
+  const [rows, all] = await Promise.all([
+    db.goal.groupBy({
+      by: ["groupId", "userId"],
+      where,
+      _count: { _all: true },
+      _max: { createdAt: true },
+      orderBy: [{ groupId: "asc" }, { userId: "asc" }],
+      ...page,
+    }),
+    db.goal.groupBy({ by: ["groupId", "userId"], where }),
+  ]);
+
+  const completed = await db.goal.groupBy({
+    by: ["groupId", "userId"],
+    where: { ...where, status: "completed", userId: { in: rows.map((r) => r.userId) } },
+    _count: { _all: true },
+  });
+  const completedCount = (row: { groupId: string; userId: string }) =>
+    completed.find((c) => c.groupId === row.groupId && c.userId === row.userId)?._count._all ?? 0;
+
+  return {
+    users: rows.map((row) => ({
+      groupId: row.groupId,
+      userId: row.userId,
+      totalGoals: row._count._all,
+      completedGoals: completedCount(row),
+      lastGoalAt: row._max.createdAt?.toISOString() ?? null,
+    })),
+    total: all.length,
+  };
+};
+
 // Get all users with active goals
-export const getUsersWithActiveGoals = async (): Promise<string[]> => {
+export const getUsersWithActiveGoals = async (groupId: string): Promise<string[]> => {
   const goals = await db.goal.findMany({
-    where: { status: "active" },
+    where: { groupId, status: "active" },
     select: { userId: true },
     distinct: ["userId"],
   });
@@ -182,6 +486,7 @@ export const getUsersWithActiveGoals = async (): Promise<string[]> => {
 
 // Get goal history for a user across multiple sprints
 export const getGoalHistory = async (
+  groupId: string,
   userId: string,
   sprintCount: number = 3
 ): Promise<{
@@ -196,37 +501,30 @@ export const getGoalHistory = async (
     frequentlyCarriedOver: string[];
   };
 }> => {
-  const currentSprint = getCurrentSprintNumber();
-  const startSprint = Math.max(1, currentSprint - sprintCount + 1);
+  const recentSprints = await getRecentSprints(groupId, sprintCount);
 
   const allGoals = await db.goal.findMany({
     where: {
+      groupId,
       userId,
-      sprintNum: { gte: startSprint, lte: currentSprint },
+      sprintId: { in: recentSprints.map((s) => s.id) },
+      ...confirmedOnly,
     },
-    orderBy: { sprintNum: "desc" },
+    include: goalInclude,
   });
 
   const mapped = allGoals.map(toGoal);
 
-  const sprintMap = new Map<number, Goal[]>();
-  for (let i = startSprint; i <= currentSprint; i++) {
-    sprintMap.set(i, []);
-  }
-  for (const goal of mapped) {
-    const existing = sprintMap.get(goal.sprintNumber) || [];
-    existing.push(goal);
-    sprintMap.set(goal.sprintNumber, existing);
-  }
-
-  const sprints = Array.from(sprintMap.entries())
-    .map(([sprintNumber, goals]) => ({
-      sprintNumber,
+  // Recent sprints come back newest first
+  const sprints = recentSprints.map((sprint) => {
+    const goals = mapped.filter((g) => g.sprintId === sprint.id);
+    return {
+      sprintNumber: sprint.number,
       goals,
       completed: goals.filter((g) => g.status === "completed").length,
       total: goals.length,
-    }))
-    .sort((a, b) => b.sprintNumber - a.sprintNumber);
+    };
+  });
 
   const completedGoals = mapped.filter((g) => g.status === "completed").map((g) => g.text.toLowerCase());
   const carriedOverGoals = mapped.filter((g) => g.status === "carried_over").map((g) => g.text.toLowerCase());
@@ -242,6 +540,7 @@ export const getGoalHistory = async (
 
 // Get stats for a user
 export const getUserStats = async (
+  groupId: string,
   userId: string
 ): Promise<{
   totalGoals: number;
@@ -250,21 +549,24 @@ export const getUserStats = async (
   currentStreak: number;
 }> => {
   const userGoals = await db.goal.findMany({
-    where: { userId },
+    where: { groupId, userId, ...confirmedOnly },
   });
 
   const total = userGoals.length;
   const completed = userGoals.filter((g) => g.status === "completed").length;
   const completionRate = total > 0 ? Math.round((completed / total) * 100) : 0;
 
-  const sprintsWithCompletions = [
-    ...new Set(userGoals.filter((g) => g.status === "completed").map((g) => g.sprintNum)),
-  ].sort((a, b) => b - a);
+  const sprintsWithCompletions = new Set(userGoals.filter((g) => g.status === "completed").map((g) => g.sprintId));
 
+  // Count consecutive sprints with completions, walking back from the current sprint
   let streak = 0;
-  const currentSprint = getCurrentSprintNumber();
-  for (let i = 0; i < sprintsWithCompletions.length; i++) {
-    if (sprintsWithCompletions[i] === currentSprint - i) {
+  const groupSprints = await db.sprint.findMany({
+    where: { groupId },
+    select: { id: true },
+    orderBy: { number: "desc" },
+  });
+  for (const sprint of groupSprints) {
+    if (sprintsWithCompletions.has(sprint.id)) {
       streak++;
     } else {
       break;
@@ -289,8 +591,9 @@ export interface AdminStats {
   activeGoals: number;
   completedGoals: number;
   carriedOverGoals: number;
+  droppedGoals: number;
   overallCompletionRate: number;
-  currentSprintNumber: number;
+  currentSprintNumber: number | null; // null when aggregating across groups
   currentSprintStats: {
     goals: number;
     completed: number;
@@ -298,6 +601,7 @@ export interface AdminStats {
   };
   topPerformers: {
     userId: string;
+    name: string;
     completedGoals: number;
     completionRate: number;
   }[];
@@ -307,13 +611,17 @@ export interface AdminStats {
   };
 }
 
-export const getAdminStats = async (): Promise<AdminStats> => {
-  const currentSprint = getCurrentSprintNumber();
-  const sevenDaysAgo = new Date();
+// Aggregate stats for one group, or across all groups when groupId is omitted
+export const getAdminStats = async (groupId?: string): Promise<AdminStats> => {
+  const currentSprints = await getCurrentSprints(groupId);
+  const currentSprintIds = new Set(currentSprints.map((s) => s.id));
+  const sevenDaysAgo = now();
   sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
   // Get all goals
-  const allGoals = await db.goal.findMany();
+  const allGoals = await db.goal.findMany({
+    where: { ...(groupId ? { groupId } : {}), ...confirmedOnly },
+  });
 
   // Total unique users
   const uniqueUsers = [...new Set(allGoals.map((g) => g.userId))];
@@ -322,9 +630,10 @@ export const getAdminStats = async (): Promise<AdminStats> => {
   const activeGoals = allGoals.filter((g) => g.status === "active").length;
   const completedGoals = allGoals.filter((g) => g.status === "completed").length;
   const carriedOverGoals = allGoals.filter((g) => g.status === "carried_over").length;
+  const droppedGoals = allGoals.filter((g) => g.status === "dropped").length;
 
   // Current sprint stats
-  const currentSprintGoals = allGoals.filter((g) => g.sprintNum === currentSprint);
+  const currentSprintGoals = allGoals.filter((g) => currentSprintIds.has(g.sprintId));
   const currentSprintUsers = [...new Set(currentSprintGoals.map((g) => g.userId))];
   const currentSprintCompleted = currentSprintGoals.filter((g) => g.status === "completed").length;
 
@@ -345,10 +654,15 @@ export const getAdminStats = async (): Promise<AdminStats> => {
     }
   }
 
+  // Members who opted out of the leaderboard or of tracking are left off it
+  const members = await getMemberMap(groupId, Object.keys(userStats));
+  const isListed = (userId: string) =>
+    members.get(userId)?.leaderboardOptIn !== false && members.get(userId)?.trackingOptIn !== false;
   const topPerformers = Object.entries(userStats)
-    .filter(([_, stats]) => stats.total >= 3)
+    .filter(([userId, stats]) => stats.total >= 3 && isListed(userId))
     .map(([userId, stats]) => ({
       userId,
+      name: memberName(members.get(userId), userId),
       completedGoals: stats.completed,
       completionRate: Math.round((stats.completed / stats.total) * 100),
     }))
@@ -367,8 +681,9 @@ export const getAdminStats = async (): Promise<AdminStats> => {
     activeGoals,
     completedGoals,
     carriedOverGoals,
+    droppedGoals,
     overallCompletionRate,
-    currentSprintNumber: currentSprint,
+    currentSprintNumber: groupId ? (currentSprints[0]?.number ?? null) : null,
     currentSprintStats: {
       goals: currentSprintGoals.length,
       completed: currentSprintCompleted,
@@ -382,18 +697,31 @@ export const getAdminStats = async (): Promise<AdminStats> => {
   };
 };
 
-// Get DB summary for LLM context (used by admin chat)
-export const getDBSummaryForLLM = async (): Promise<string> => {
-  const stats = await getAdminStats();
-  const currentSprint = getCurrentSprintNumber();
+// Get DB summary for LLM context (used by admin chat). Members who opted out of tracking
+// only count towards the totals - none of their goals are included.
+export const getDBSummaryForLLM = async (groupId?: string): Promise<string> => {
+  const [stats, optedOut] = await Promise.all([getAdminStats(groupId), getOptedOutUserIds(groupId)]);
+  const threeSprintsAgo = now();
+  threeSprintsAgo.setDate(threeSprintsAgo.getDate() - 42);
 
   // Get recent goals with more detail for context
   const recentGoals = await db.goal.findMany({
-    where: { sprintNum: { gte: currentSprint - 2 } },
+    where: {
+      ...(groupId ? { groupId } : {}),
+      ...(optedOut.size > 0 ? { userId: { notIn: [...optedOut] } } : {}),
+      sprint: { startDate: { gte: threeSprintsAgo } },
+    },
     orderBy: { createdAt: "desc" },
     take: 50,
   });
 
+  const names = await getMemberNames(groupId, [...new Set(recentGoals.map((g) => g.userId))]);
+  const describe = (goals: typeof recentGoals) =>
+    goals
+      .slice(0, 10)
+      .map((g) => `"${g.text}" (${names.get(g.userId)})`)
+      .join(", ");
+
   const goalsByStatus = {
     active: recentGoals.filter((g) => g.status === "active"),
     completed: recentGoals.filter((g) => g.status === "completed"),
@@ -409,8 +737,9 @@ OVERALL STATS:
 - Goals completed: ${stats.completedGoals} (${stats.overallCompletionRate}% completion rate)
 - Currently active goals: ${stats.activeGoals}
 - Carried over (incomplete): ${stats.carriedOverGoals}
+- Dropped: ${stats.droppedGoals}
 
-CURRENT SPRINT (#${stats.currentSprintNumber}):
+CURRENT SPRINT${stats.currentSprintNumber ? ` (#${stats.currentSprintNumber})` : "S (all groups)"}:
 - Goals set: ${stats.currentSprintStats.goals}
 - Completed: ${stats.currentSprintStats.completed}
 - Active users: ${stats.currentSprintStats.activeUsers}
@@ -420,10 +749,10 @@ RECENT ACTIVITY (Last 7 days):
 - Goals completed: ${stats.recentActivity.goalsCompletedLast7Days}
 
 TOP PERFORMERS:
-${stats.topPerformers.map((p, i) => `${i + 1}. User ${p.userId.slice(-6)}: ${p.completedGoals} completed (${p.completionRate}%)`).join("\n")}
+${stats.topPerformers.map((p, i) => `${i + 1}. ${p.name}: ${p.completedGoals} completed (${p.completionRate}%)`).join("\n")}
 
-SAMPLE RECENT GOALS (last 3 sprints):
-Active: ${goalsByStatus.active.slice(0, 10).map((g) => `"${g.text}"`).join(", ")}
-Completed: ${goalsByStatus.completed.slice(0, 10).map((g) => `"${g.text}"`).join(", ")}
+SAMPLE RECENT GOALS (last 6 weeks):
+Active: ${describe(goalsByStatus.active)}
+Completed: ${describe(goalsByStatus.completed)}
 `.trim();
 };
@@ -0,0 +1,48 @@
+// Persist the groups the bot serves and whether their scheduler is running
+import { db } from "./db";
+import { DEFAULT_TIMEZONE } from "./schedule";
+
+export interface StoredGroup {
+  id: string;
+  name: string;
+  schedulerActive: boolean;
+  timezone: string | null;
+}
+
+export const getStoredGroups = async (): Promise<StoredGroup[]> => {
+  return db.group.findMany({
+    select: { id: true, name: true, schedulerActive: true, timezone: true },
+    orderBy: { createdAt: "asc" },
+  });
+};
+
+export const saveGroup = async (groupId: string, name: string): Promise<void> => {
+  await db.group.upsert({
+    where: { id: groupId },
+    update: { name },
+    create: { id: groupId, name },
+  });
+};
+
+export const saveSchedulerActive = async (groupId: string, active: boolean, name?: string): Promise<void> => {
+  await db.group.upsert({
+    where: { id: groupId },
+    update: { schedulerActive: active, ...(name ? { name } : {}) },
+    create: { id: groupId, name: name || "", schedulerActive: active },
+  });
+  console.log(`[GroupStore] Scheduler ${active ? "activated" : "deactivated"} for ${groupId}`);
+};
+
+export const getGroupTimezone = async (groupId: string): Promise<string> => {
+  const group = await db.group.findUnique({ where: { id: groupId }, select: { timezone: true } });
+  return group?.timezone || DEFAULT_TIMEZONE;
+};
+
+export const saveGroupTimezone = async (groupId: string, timezone: string, name?: string): Promise<void> => {
+  await db.group.upsert({
+    where: { id: groupId },
+    update: { timezone },
+    create: { id: groupId, name: name || "", timezone },
+  });
+  console.log(`[GroupStore] Timezone set to ${timezone} for ${groupId}`);
+};
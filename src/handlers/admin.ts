@@ -1,30 +1,100 @@
 // Admin-only command handlers
-import type { Chat, GroupChat } from "whatsapp-web.js";
+import type { Chat, GroupChat, Message, Reaction } from "whatsapp-web.js";
 
 import { BOT_CONFIG } from "../config";
+import { getAllGroupStates, findGroupState, setMissedJobsCache, updateNextScheduledTasks } from "../state";
 import { getAdminStats, addGoals } from "../goalStore";
 import { isLLMReady, adminChat, extractGoals } from "../llm";
 import { getClient } from "../client";
+import { applyScheduleChange, resolveCatchUpPrompt, postJobRunLate } from "../scheduler";
+import type { JobRun } from "../jobTracker";
+import {
+  getRecentRuns,
+  findRunByRef,
+  getRunCounts,
+  getLastSuccessfulRun,
+  getMissedJobs,
+  recordJobRetry,
+  recordJobDismissed,
+} from "../jobTracker";
+import { saveGroupSchedule, resetGroupSchedules, setGroupSchedulesTimezone } from "../scheduleStore";
+import { saveGroupTimezone } from "../groupStore";
+import {
+  describeSchedule,
+  describeCatchUp,
+  parseJobType,
+  parseScheduleSpec,
+  parseCatchUpSpec,
+  isValidTimezone,
+  JOB_TYPES,
+} from "../schedule";
+import type { JobType } from "../dateCalculator";
+import { getJobLabel } from "../dateCalculator";
+import { getToday, formatDate } from "../utils";
+import { now } from "../clock";
+import { CONFIRM_REACTIONS, DISCARD_REACTIONS } from "../goalConfirmation";
+import { queueMessage, queueDocument } from "../outbox";
+import { goalEvents } from "../metrics";
+import {
+  TEMPLATE_KEYS,
+  TEMPLATE_VARIABLES,
+  DEFAULT_TEMPLATES,
+  parseTemplateKey,
+  getTemplateBody,
+  renderMessage,
+} from "../templates";
+import { getTemplateOverrides, saveTemplate, resetTemplate } from "../templateStore";
+import type { ExportFormat, ExportTable, ImportIssue, ImportResult } from "../dataTransfer";
+import { EXPORT_TABLES, exportCsv, exportFileName, exportJson, importData, parseImport } from "../dataTransfer";
+import type { Member, MemberChanges } from "../memberStore";
+import { getMembers, memberName, shortUserId, syncMembers, updateMember } from "../memberStore";
+
+const groupNotFoundMessage = (ref?: string) =>
+  ref
+    ? `❌ Unknown group "${ref}". Use ${BOT_CONFIG.GROUPS_COMMAND} to list groups.`
+    : `❌ Multiple groups (or none) registered - specify one. Use ${BOT_CONFIG.GROUPS_COMMAND} to list groups.`;
+
+// Handle !bot groups command - list every group the bot is serving
+export const handleGroupsCommand = async (chat: Chat) => {
+  const groups = getAllGroupStates();
+  if (groups.length === 0) {
+    await queueMessage(chat.id._serialized, "👥 No groups registered yet. Use !bot start in a group.");
+    return;
+  }
+
+  const groupList = groups
+    .map((g, i) => `${i + 1}. ${g.groupName || "Unknown"} ${g.schedulerActive ? "✅" : "⏸️"}\n    ${g.groupId}`)
+    .join("\n");
+  await queueMessage(chat.id._serialized, `*🏘️ Groups (${groups.length})*\n\n${groupList}`);
+};
+
+// Handle !bot stats [group] command - show aggregate goal tracking statistics
+export const handleStatsCommand = async (chat: Chat, content: string) => {
+  const groupRef = content.slice(BOT_CONFIG.STATS_COMMAND.length).trim();
+  const group = groupRef ? findGroupState(groupRef) : null;
+  if (groupRef && !group) {
+    await queueMessage(chat.id._serialized, groupNotFoundMessage(groupRef));
+    return;
+  }
 
-// Handle !bot stats command - show aggregate goal tracking statistics
-export const handleStatsCommand = async (chat: Chat) => {
   try {
-    const stats = await getAdminStats();
+    const stats = await getAdminStats(group?.groupId);
 
     const topPerformersText =
       stats.topPerformers.length > 0
-        ? stats.topPerformers.map((p, i) => `  ${i + 1}. ...${p.userId.slice(-6)}: ${p.completionRate}%`).join("\n")
+        ? stats.topPerformers.map((p, i) => `  ${i + 1}. ${p.name}: ${p.completionRate}%`).join("\n")
         : "  No users with 3+ goals yet";
 
     const statsText =
-      `*📈 Goal Tracking Stats*\n\n` +
+      `*📈 Goal Tracking Stats${group ? ` - ${group.groupName || group.groupId}` : " - All Groups"}*\n\n` +
       `*Overall:*\n` +
       `👥 Total users: ${stats.totalUsers}\n` +
       `🎯 Total goals: ${stats.totalGoals}\n` +
       `✅ Completed: ${stats.completedGoals} (${stats.overallCompletionRate}%)\n` +
       `🔄 Active: ${stats.activeGoals}\n` +
-      `⏭️ Carried over: ${stats.carriedOverGoals}\n\n` +
-      `*Current Sprint (#${stats.currentSprintNumber}):*\n` +
+      `⏭️ Carried over: ${stats.carriedOverGoals}\n` +
+      `🗑️ Dropped: ${stats.droppedGoals}\n\n` +
+      `*${stats.currentSprintNumber ? `Current Sprint (#${stats.currentSprintNumber})` : "Current Sprints"}:*\n` +
       `📝 Goals set: ${stats.currentSprintStats.goals}\n` +
       `✅ Completed: ${stats.currentSprintStats.completed}\n` +
       `👤 Active users: ${stats.currentSprintStats.activeUsers}\n\n` +
@@ -33,10 +103,10 @@ export const handleStatsCommand = async (chat: Chat) => {
       `✅ Completed: ${stats.recentActivity.goalsCompletedLast7Days}\n\n` +
       `*Top Performers (by completion rate):*\n${topPerformersText}`;
 
-    await chat.sendMessage(statsText);
+    await queueMessage(chat.id._serialized, statsText);
   } catch (error) {
     console.error("Error getting admin stats:", error);
-    await chat.sendMessage("❌ Failed to retrieve stats. Check server logs.");
+    await queueMessage(chat.id._serialized, "❌ Failed to retrieve stats. Check server logs.");
   }
 };
 
@@ -46,7 +116,8 @@ export const handleChatCommand = async (chat: Chat, content: string) => {
   const chatMessage = content.slice(BOT_CONFIG.CHAT_COMMAND.length).trim();
 
   if (!chatMessage) {
-    await chat.sendMessage(
+    await queueMessage(
+      chat.id._serialized,
       `💬 *Admin Chat*\n\nAsk me anything about the goal tracking data!\n\n` +
         `Examples:\n` +
         `• _${BOT_CONFIG.CHAT_COMMAND} How many goals were completed this sprint?_\n` +
@@ -57,39 +128,41 @@ export const handleChatCommand = async (chat: Chat, content: string) => {
     return;
   }
 
-  if (!isLLMReady()) {
-    await chat.sendMessage("🤖 AI isn't available right now. Try again later!");
+  if (!isLLMReady("chat")) {
+    await queueMessage(chat.id._serialized, "🤖 AI isn't available right now. Try again later!");
     return;
   }
 
-  await chat.sendMessage("🤔 _Analyzing the data..._");
+  await queueMessage(chat.id._serialized, "🤔 _Analyzing the data..._");
 
   try {
     const response = await adminChat(chatMessage);
-    await chat.sendMessage(`💬 ${response}`);
+    await queueMessage(chat.id._serialized, `💬 ${response}`);
   } catch (error) {
     console.error("Error in admin chat:", error);
-    await chat.sendMessage("❌ Sorry, I couldn't process that question. Try rephrasing?");
+    await queueMessage(chat.id._serialized, "❌ Sorry, I couldn't process that question. Try rephrasing?");
   }
 };
 
-// Handle !bot users command - list group members with IDs
-export const handleUsersCommand = async (chat: Chat) => {
+// Handle !bot users [group] command - list group members with IDs
+export const handleUsersCommand = async (chat: Chat, content: string) => {
   try {
     const client = getClient();
     if (!client) {
-      await chat.sendMessage("❌ Client not available.");
+      await queueMessage(chat.id._serialized, "❌ Client not available.");
       return;
     }
 
-    if (!BOT_CONFIG.TARGET_GROUP_ID) {
-      await chat.sendMessage("❌ No target group set. Use !bot start in a group first.");
+    const groupRef = content.slice(BOT_CONFIG.USERS_COMMAND.length).trim();
+    const group = findGroupState(groupRef || undefined);
+    if (!group) {
+      await queueMessage(chat.id._serialized, groupNotFoundMessage(groupRef || undefined));
       return;
     }
 
-    const targetChat = await client.getChatById(BOT_CONFIG.TARGET_GROUP_ID);
+    const targetChat = await client.getChatById(group.groupId);
     if (!targetChat.isGroup) {
-      await chat.sendMessage("❌ Target is not a group chat.");
+      await queueMessage(chat.id._serialized, "❌ Target is not a group chat.");
       return;
     }
 
@@ -97,32 +170,31 @@ export const handleUsersCommand = async (chat: Chat) => {
     const participants = groupChat.participants;
 
     if (!participants || participants.length === 0) {
-      await chat.sendMessage("❌ Could not fetch group participants.");
+      await queueMessage(chat.id._serialized, "❌ Could not fetch group participants.");
       return;
     }
 
-    // Get contact info for each participant
-    const userList: string[] = [];
-    for (const participant of participants) {
-      try {
-        const contact = await client.getContactById(participant.id._serialized);
-        const name = contact.pushname || contact.name || contact.shortName || "Unknown";
-        const isAdmin = participant.isAdmin || participant.isSuperAdmin ? " (Admin)" : "";
-        userList.push(`${participant.id._serialized} - ${name}${isAdmin}`);
-      } catch {
-        userList.push(`${participant.id._serialized} - Unknown`);
-      }
-    }
+    // Only participants we haven't stored yet need a contact lookup
+    await syncMembers(group.groupId, participants.map((p) => p.id._serialized));
+    const members = await getMembers(group.groupId);
+
+    const userList = participants.map((participant) => {
+      const id = participant.id._serialized;
+      const member = members.find((m) => m.userId === id || m.phoneId === id || m.lid === id);
+      const name = member?.alias ? `${member.alias} (${member.displayName || "no WhatsApp name"})` : member?.displayName || "Unknown";
+      const isAdmin = participant.isAdmin || participant.isSuperAdmin ? " (Admin)" : "";
+      return `${member?.userId ?? id} - ${name}${isAdmin}`;
+    });
 
     const response =
       `*👥 Group Members (${groupChat.name})*\n\n` +
-      `_Copy the ID to use with !bot ingest_\n\n` +
+      `_Copy the ID to use with ${BOT_CONFIG.INGEST_COMMAND} or ${BOT_CONFIG.MEMBER_COMMAND}_\n\n` +
       userList.join("\n");
 
-    await chat.sendMessage(response);
+    await queueMessage(chat.id._serialized, response);
   } catch (error) {
     console.error("Error listing users:", error);
-    await chat.sendMessage("❌ Failed to fetch group members. Check server logs.");
+    await queueMessage(chat.id._serialized, "❌ Failed to fetch group members. Check server logs.");
   }
 };
 
@@ -132,29 +204,31 @@ export const handleIngestCommand = async (chat: Chat, content: string) => {
   const ingestContent = content.slice(BOT_CONFIG.INGEST_COMMAND.length).trim();
 
   if (!ingestContent) {
-    await chat.sendMessage(
+    await queueMessage(
+      chat.id._serialized,
       `*📥 Manual Goal Ingest*\n\n` +
         `Use this to manually add goals for a user.\n\n` +
         `*Format:*\n` +
-        `${BOT_CONFIG.INGEST_COMMAND} <userId>\n` +
+        `${BOT_CONFIG.INGEST_COMMAND} <userId> [group]\n` +
         `<paste message content>\n\n` +
         `*Example:*\n` +
         `${BOT_CONFIG.INGEST_COMMAND} 447123456789@c.us\n` +
         `Goals for this week:\n` +
         `- Finish the landing page\n` +
         `- Fix the auth bug\n\n` +
-        `_Use ${BOT_CONFIG.USERS_COMMAND} to get user IDs_`
+        `_Use ${BOT_CONFIG.USERS_COMMAND} to get user IDs. The group is optional when only one group is registered._`
     );
     return;
   }
 
-  // Parse userId (first line) and message content (rest)
+  // Parse userId and optional group (first line) and message content (rest)
   const lines = ingestContent.split("\n");
-  const userId = lines[0].trim();
+  const [userId = "", groupRef] = lines[0].trim().split(/\s+/);
   const messageContent = lines.slice(1).join("\n").trim();
 
   if (!userId || !userId.includes("@")) {
-    await chat.sendMessage(
+    await queueMessage(
+      chat.id._serialized,
       `❌ Invalid user ID format.\n\n` +
         `Expected format: 447123456789@c.us\n` +
         `_Use ${BOT_CONFIG.USERS_COMMAND} to get valid user IDs_`
@@ -162,43 +236,661 @@ export const handleIngestCommand = async (chat: Chat, content: string) => {
     return;
   }
 
+  const group = findGroupState(groupRef);
+  if (!group) {
+    await queueMessage(chat.id._serialized, groupNotFoundMessage(groupRef));
+    return;
+  }
+
   if (!messageContent) {
-    await chat.sendMessage(
+    await queueMessage(
+      chat.id._serialized,
       `❌ No message content provided.\n\n` +
         `Please paste the user's message after the user ID on a new line.`
     );
     return;
   }
 
-  if (!isLLMReady()) {
-    await chat.sendMessage("❌ AI isn't available right now. Try again later!");
+  if (!isLLMReady("extraction")) {
+    await queueMessage(chat.id._serialized, "❌ AI isn't available right now. Try again later!");
     return;
   }
 
-  await chat.sendMessage("🔍 _Extracting goals from message..._");
+  await queueMessage(chat.id._serialized, "🔍 _Extracting goals from message..._");
 
   try {
     const extractedGoals = await extractGoals(messageContent);
 
     if (extractedGoals.length === 0) {
-      await chat.sendMessage(
+      await queueMessage(
+        chat.id._serialized,
         `❌ Could not extract any goals from the message.\n\n` +
           `Try ensuring the message contains clear goals or tasks.`
       );
       return;
     }
 
-    await addGoals(userId, extractedGoals);
+    await addGoals(group.groupId, userId, extractedGoals);
+    goalEvents.inc({ event: "extracted" }, extractedGoals.length);
 
     const goalsList = extractedGoals.map((g, i) => `${i + 1}. ${g}`).join("\n");
-    await chat.sendMessage(
+    await queueMessage(
+      chat.id._serialized,
       `✅ *Goals ingested for user*\n\n` +
-        `👤 User: ...${userId.slice(-12)}\n\n` +
+        `👤 User: ...${userId.slice(-12)}\n` +
+        `👥 Group: ${group.groupName || group.groupId}\n\n` +
         `📋 *Goals added:*\n${goalsList}\n\n` +
         `_These goals are now tracked for the current sprint._`
     );
   } catch (error) {
     console.error("Error ingesting goals:", error);
-    await chat.sendMessage("❌ Failed to ingest goals. Check server logs.");
+    await queueMessage(chat.id._serialized, "❌ Failed to ingest goals. Check server logs.");
+  }
+};
+
+// Handle !bot schedule [#group] [<job> <rule> | <job> on|off | reset [job]] - view or change a group's schedule
+export const handleScheduleCommand = async (chat: Chat, content: string) => {
+  const args = content.slice(BOT_CONFIG.SCHEDULE_COMMAND.length).trim().split(/\s+/).filter(Boolean);
+
+  // Optional leading group reference (#2 or a group ID)
+  const groupRef = args[0] && (args[0].startsWith("#") || args[0].endsWith("@g.us")) ? args.shift() : undefined;
+  const group = findGroupState(groupRef);
+  if (!group) {
+    await queueMessage(chat.id._serialized, groupNotFoundMessage(groupRef));
+    return;
+  }
+
+  const groupName = group.groupName || group.groupId;
+  const [action, ...rest] = args;
+
+  if (!action) {
+    const lines = group.schedules.map(
+      (s) => `• *${getJobLabel(s.jobType)}* (${s.jobType}): ${describeSchedule(s)}\n    _If missed: ${describeCatchUp(s.catchUp)}_`
+    );
+    await queueMessage(
+      chat.id._serialized,
+      `*🗓️ Schedule - ${groupName}*\n\n${lines.join("\n")}\n\n` +
+        `*Change it:*\n` +
+        `${BOT_CONFIG.SCHEDULE_COMMAND} [#group] <job> 1,3 mon 09:00 [timezone]\n` +
+        `${BOT_CONFIG.SCHEDULE_COMMAND} [#group] <job> last fri 15:30\n` +
+        `${BOT_CONFIG.SCHEDULE_COMMAND} [#group] <job> biweekly wed 09:00\n` +
+        `${BOT_CONFIG.SCHEDULE_COMMAND} [#group] <job> monthend 09:00\n` +
+        `${BOT_CONFIG.SCHEDULE_COMMAND} [#group] <job> on|off\n` +
+        `${BOT_CONFIG.SCHEDULE_COMMAND} [#group] <job> catchup auto|ask [hours] | skip\n` +
+        `${BOT_CONFIG.SCHEDULE_COMMAND} [#group] reset [job]`
+    );
+    return;
+  }
+
+  try {
+    if (action.toLowerCase() === "reset") {
+      const jobType = rest[0] ? parseJobType(rest[0]) : undefined;
+      if (jobType === null) {
+        await queueMessage(
+          chat.id._serialized,
+          `❌ Unknown job "${rest[0]}". Jobs: monday, friday, demo, checkIn, monthEnd`
+        );
+        return;
+      }
+      await resetGroupSchedules(group.groupId, jobType);
+      await applyScheduleChange(group.groupId);
+      await queueMessage(
+        chat.id._serialized,
+        `✅ ${jobType ? getJobLabel(jobType) : "All jobs"} reset to the default schedule for ${groupName}.`
+      );
+      return;
+    }
+
+    const jobType = parseJobType(action);
+    if (!jobType) {
+      await queueMessage(
+        chat.id._serialized,
+        `❌ Unknown job "${action}". Jobs: monday, friday, demo, checkIn, monthEnd`
+      );
+      return;
+    }
+
+    const current = group.schedules.find((s) => s.jobType === jobType)!;
+    let updated = current;
+
+    if (rest.length === 1 && ["on", "off"].includes(rest[0].toLowerCase())) {
+      updated = { ...current, enabled: rest[0].toLowerCase() === "on" };
+    } else if (rest[0]?.toLowerCase() === "catchup") {
+      const result = parseCatchUpSpec(rest.slice(1), current.catchUp);
+      if ("error" in result) {
+        await queueMessage(
+          chat.id._serialized,
+          `❌ ${result.error}\n\n_Use ${BOT_CONFIG.SCHEDULE_COMMAND} to see the format._`
+        );
+        return;
+      }
+      await saveGroupSchedule(group.groupId, { ...current, catchUp: result.catchUp });
+      await applyScheduleChange(group.groupId);
+      await queueMessage(
+        chat.id._serialized,
+        `✅ If *${getJobLabel(jobType)}* is missed in ${groupName}: ${describeCatchUp(result.catchUp)}`
+      );
+      return;
+    } else {
+      const result = parseScheduleSpec(rest, current, getToday(current.timezone));
+      if ("error" in result) {
+        await queueMessage(
+          chat.id._serialized,
+          `❌ ${result.error}\n\n_Use ${BOT_CONFIG.SCHEDULE_COMMAND} to see the format._`
+        );
+        return;
+      }
+      updated = result.schedule;
+    }
+
+    await saveGroupSchedule(group.groupId, updated);
+    await applyScheduleChange(group.groupId);
+    await queueMessage(
+      chat.id._serialized,
+      `✅ *${getJobLabel(jobType)}* for ${groupName}: ${describeSchedule(updated)}`
+    );
+  } catch (error) {
+    console.error("Error updating schedule:", error);
+    await queueMessage(chat.id._serialized, "❌ Failed to update schedule. Check server logs.");
+  }
+};
+
+// Handle !bot timezone [#group] [<timezone>] - show or change the timezone a group's jobs run in
+export const handleTimezoneCommand = async (chat: Chat, content: string) => {
+  const args = content.slice(BOT_CONFIG.TIMEZONE_COMMAND.length).trim().split(/\s+/).filter(Boolean);
+
+  // Optional leading group reference (#2 or a group ID)
+  const groupRef = args[0] && (args[0].startsWith("#") || args[0].endsWith("@g.us")) ? args.shift() : undefined;
+  const group = findGroupState(groupRef);
+  if (!group) {
+    await queueMessage(chat.id._serialized, groupNotFoundMessage(groupRef));
+    return;
+  }
+
+  const groupName = group.groupName || group.groupId;
+  const [timezone] = args;
+
+  if (!timezone) {
+    await queueMessage(
+      chat.id._serialized,
+      `*🌏 Timezone - ${groupName}*\n\n${group.timezone} (now ${formatDate(now(), group.timezone)})\n\n` +
+        `*Change it:* ${BOT_CONFIG.TIMEZONE_COMMAND} [#group] <timezone>, e.g. Europe/London`
+    );
+    return;
+  }
+
+  if (!isValidTimezone(timezone)) {
+    await queueMessage(
+      chat.id._serialized,
+      `❌ Unknown timezone "${timezone}". Use an IANA name such as Pacific/Auckland or America/New_York.`
+    );
+    return;
+  }
+
+  try {
+    // Every job keeps its wall-clock time, now read in the new timezone
+    await saveGroupTimezone(group.groupId, timezone, group.groupName);
+    await setGroupSchedulesTimezone(group.groupId, timezone);
+    group.timezone = timezone;
+    await applyScheduleChange(group.groupId);
+    await queueMessage(
+      chat.id._serialized,
+      `✅ ${groupName} now runs on ${timezone} time (now ${formatDate(now(), timezone)}).`
+    );
+  } catch (error) {
+    console.error("Error updating timezone:", error);
+    await queueMessage(chat.id._serialized, "❌ Failed to update timezone. Check server logs.");
+  }
+};
+
+// Reacting ✅ or ❌ to a missed-job prompt posts the job late or skips it
+export const handleCatchUpReaction = async (reaction: Reaction) => {
+  const confirm = CONFIRM_REACTIONS.includes(reaction.reaction);
+  if (!confirm && !DISCARD_REACTIONS.includes(reaction.reaction)) return;
+
+  try {
+    const run = await resolveCatchUpPrompt(reaction.msgId._serialized, confirm);
+    if (!run) return;
+
+    const label = getJobLabel(run.jobType as JobType);
+    const groupName = findGroupState(run.groupId)?.groupName || run.groupId;
+    await queueMessage(
+      reaction.msgId.remote,
+      confirm ? `✅ Posting the missed ${label} to ${groupName}.` : `⏭️ Skipped the missed ${label} for ${groupName}.`
+    );
+  } catch (error) {
+    console.error("[CatchUp] Failed to handle reaction:", error);
+  }
+};
+
+const RUN_STATUS_ICONS: Record<string, string> = {
+  completed: "✅",
+  manual: "🖐️",
+  skipped: "⏭️",
+  failed: "❌",
+  missed: "⚠️",
+  dismissed: "🗑️",
+  pending: "⏳",
+};
+
+const RECENT_RUNS_LIMIT = 10;
+
+// Short run reference shown in listings and accepted by retry/dismiss
+const runRef = (run: JobRun) => run.id.slice(-6);
+
+const formatRunTime = (date: Date, timezone: string) =>
+  date.toLocaleString("en-NZ", {
+    timeZone: timezone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const formatRun = (run: JobRun, timezone: string): string => {
+  const icon = RUN_STATUS_ICONS[run.status] ?? "•";
+  const catchUp = run.catchUpAction ? `, catch-up: ${run.catchUpAction}` : "";
+  const detail = run.error ? `\n    _Error: ${run.error}_` : run.skippedReason ? `\n    _${run.skippedReason}_` : "";
+  return (
+    `${icon} ${getJobLabel(run.jobType as JobType)} - ${formatRunTime(run.scheduledFor, timezone)} ` +
+    `(${run.status}${catchUp}) [${runRef(run)}]${detail}`
+  );
+};
+
+// Handle !bot jobs [#group] [job | stats | retry <run> | dismiss <run>] - inspect and fix scheduled job runs
+export const handleJobsCommand = async (chat: Chat, content: string) => {
+  const args = content.slice(BOT_CONFIG.JOBS_COMMAND.length).trim().split(/\s+/).filter(Boolean);
+
+  // Optional leading group reference (#2 or a group ID)
+  const groupRef = args[0] && (args[0].startsWith("#") || args[0].endsWith("@g.us")) ? args.shift() : undefined;
+  const group = findGroupState(groupRef);
+  if (!group) {
+    await queueMessage(chat.id._serialized, groupNotFoundMessage(groupRef));
+    return;
+  }
+
+  const groupName = group.groupName || group.groupId;
+  const [action, ref] = args.map((a) => a.toLowerCase());
+
+  try {
+    if (action === "stats") {
+      const counts = await getRunCounts(group.groupId);
+      const lines: string[] = [];
+      for (const jobType of JOB_TYPES) {
+        const jobCounts = counts[jobType] ?? {};
+        const succeeded = (jobCounts.completed ?? 0) + (jobCounts.manual ?? 0);
+        // Skips are the schedule working as intended, so they don't count either way
+        const due = succeeded + (jobCounts.failed ?? 0) + (jobCounts.missed ?? 0) + (jobCounts.dismissed ?? 0);
+        const rate = due > 0 ? `${Math.round((succeeded / due) * 100)}% (${succeeded}/${due})` : "no runs yet";
+        const lastRun = await getLastSuccessfulRun(group.groupId, jobType);
+        const last = lastRun?.executedAt ? `, last posted ${formatRunTime(lastRun.executedAt, group.timezone)}` : "";
+        lines.push(`• *${getJobLabel(jobType)}*: ${rate}${last}`);
+      }
+      await queueMessage(chat.id._serialized, `*📈 Job Success Rates - ${groupName}*\n\n${lines.join("\n")}`);
+      return;
+    }
+
+    if (action === "retry" || action === "dismiss") {
+      const run = ref ? await findRunByRef(group.groupId, ref) : null;
+      if (!run) {
+        await queueMessage(
+          chat.id._serialized,
+          `❌ No run "${ref ?? ""}" in ${groupName}. Use ${BOT_CONFIG.JOBS_COMMAND} to list runs.`
+        );
+        return;
+      }
+      const label = getJobLabel(run.jobType as JobType);
+
+      if (action === "retry") {
+        if (run.status !== "failed") {
+          await queueMessage(
+            chat.id._serialized,
+            `❌ Only failed runs can be retried - this ${label} is ${run.status}.`
+          );
+          return;
+        }
+        await recordJobRetry(run.id);
+        await postJobRunLate(run);
+        await queueMessage(
+          chat.id._serialized,
+          `🔁 Retried ${label} for ${groupName}. Use ${BOT_CONFIG.JOBS_COMMAND} to check the result.`
+        );
+        return;
+      }
+
+      if (run.status !== "missed") {
+        await queueMessage(
+          chat.id._serialized,
+          `❌ Only missed runs can be dismissed - this ${label} is ${run.status}.`
+        );
+        return;
+      }
+      await recordJobDismissed(run.id);
+      setMissedJobsCache(group.groupId, await getMissedJobs(group.groupId));
+      updateNextScheduledTasks(group.groupId);
+      await queueMessage(chat.id._serialized, `🗑️ Dismissed the missed ${label} for ${groupName}.`);
+      return;
+    }
+
+    const jobType = action ? parseJobType(action) : undefined;
+    if (jobType === null) {
+      await queueMessage(chat.id._serialized, `❌ Unknown job "${action}". Jobs: ${JOB_TYPES.join(", ")}`);
+      return;
+    }
+
+    const runs = await getRecentRuns(group.groupId, RECENT_RUNS_LIMIT, jobType);
+    const title = `*📜 Job History - ${groupName}${jobType ? ` (${getJobLabel(jobType)})` : ""}*`;
+    if (runs.length === 0) {
+      await queueMessage(chat.id._serialized, `${title}\n\nNo runs recorded yet.`);
+      return;
+    }
+    await queueMessage(
+      chat.id._serialized,
+      `${title}\n\n${runs.map((run) => formatRun(run, group.timezone)).join("\n")}\n\n` +
+        `*Retry a failed run:* ${BOT_CONFIG.JOBS_COMMAND} [#group] retry <run>\n` +
+        `*Dismiss a missed run:* ${BOT_CONFIG.JOBS_COMMAND} [#group] dismiss <run>\n` +
+        `*Success rates:* ${BOT_CONFIG.JOBS_COMMAND} [#group] stats`
+    );
+  } catch (error) {
+    console.error("Error handling jobs command:", error);
+    await queueMessage(chat.id._serialized, "❌ Failed to load job history. Check server logs.");
+  }
+};
+
+// Handle !bot template [#group] [<key> [reset] | <key>\n<body>] - preview or edit scheduled post templates
+export const handleTemplateCommand = async (chat: Chat, content: string) => {
+  const [firstLine, ...bodyLines] = content.slice(BOT_CONFIG.TEMPLATE_COMMAND.length).split("\n");
+  const args = firstLine.trim().split(/\s+/).filter(Boolean);
+  const newBody = bodyLines.join("\n").trim();
+
+  // Optional leading group reference (#2 or a group ID)
+  const groupRef = args[0] && (args[0].startsWith("#") || args[0].endsWith("@g.us")) ? args.shift() : undefined;
+  const group = findGroupState(groupRef);
+  if (!group) {
+    await queueMessage(chat.id._serialized, groupNotFoundMessage(groupRef));
+    return;
+  }
+
+  const groupName = group.groupName || group.groupId;
+  const [keyArg, action] = args;
+
+  try {
+    if (!keyArg) {
+      const overrides = await getTemplateOverrides(group.groupId);
+      const keyList = TEMPLATE_KEYS.map((key) => `• ${key}${overrides[key] ? " ✏️ _custom_" : ""}`).join("\n");
+      await queueMessage(
+        chat.id._serialized,
+        `*📝 Message Templates - ${groupName}*\n\n${keyList}\n\n` +
+          `*Variables:* ${TEMPLATE_VARIABLES.map((v) => `{${v}}`).join(", ")}\n\n` +
+          `*Preview:* ${BOT_CONFIG.TEMPLATE_COMMAND} [#group] <key>\n` +
+          `*Edit:* ${BOT_CONFIG.TEMPLATE_COMMAND} [#group] <key>\n<new template text>\n` +
+          `*Reset:* ${BOT_CONFIG.TEMPLATE_COMMAND} [#group] <key> reset`
+      );
+      return;
+    }
+
+    const key = parseTemplateKey(keyArg);
+    if (!key) {
+      await queueMessage(
+        chat.id._serialized,
+        `❌ Unknown template "${keyArg}". Templates: ${TEMPLATE_KEYS.join(", ")}`
+      );
+      return;
+    }
+
+    if (action?.toLowerCase() === "reset") {
+      await resetTemplate(group.groupId, key);
+      await queueMessage(chat.id._serialized, `✅ *${key}* template reset to the default for ${groupName}.`);
+      return;
+    }
+
+    if (newBody) {
+      await saveTemplate(group.groupId, key, newBody);
+    }
+
+    const body = newBody || (await getTemplateBody(group.groupId, key));
+    const isDefault = body === DEFAULT_TEMPLATES[key];
+    await queueMessage(
+      chat.id._serialized,
+      `${newBody ? "✅ *Template saved*" : `*📝 ${key}*${isDefault ? " _(default)_" : ""}`} - ${groupName}\n\n` +
+        `*Raw:*\n${body}\n\n` +
+        `*Preview:*\n${await renderMessage(group.groupId, key)}`
+    );
+  } catch (error) {
+    console.error("Error handling template command:", error);
+    await queueMessage(chat.id._serialized, "❌ Failed to update template. Check server logs.");
+  }
+};
+
+// Handle !bot export [#group|all] [goals|sprints|jobs] [csv|json] - send data as a file
+export const handleExportCommand = async (chat: Chat, content: string) => {
+  const args = content.slice(BOT_CONFIG.EXPORT_COMMAND.length).trim().split(/\s+/).filter(Boolean);
+
+  // Optional leading group reference (#2, a group ID, or "all" for every group)
+  const everyGroup = args[0]?.toLowerCase() === "all";
+  const groupRef = everyGroup || (args[0] && (args[0].startsWith("#") || args[0].endsWith("@g.us"))) ? args.shift() : undefined;
+  const group = everyGroup ? null : findGroupState(groupRef);
+  if (!everyGroup && !group) {
+    await queueMessage(chat.id._serialized, groupNotFoundMessage(groupRef));
+    return;
+  }
+
+  let table: ExportTable | undefined;
+  let format: ExportFormat = "json";
+  for (const arg of args.map((a) => a.toLowerCase())) {
+    if (arg === "csv" || arg === "json") {
+      format = arg;
+    } else if (EXPORT_TABLES.includes(arg as ExportTable)) {
+      table = arg as ExportTable;
+    } else {
+      await queueMessage(
+        chat.id._serialized,
+        `❌ Unknown option "${arg}".\n\n` +
+          `*Usage:* ${BOT_CONFIG.EXPORT_COMMAND} [#group|all] [${EXPORT_TABLES.join("|")}] [csv|json]`
+      );
+      return;
+    }
+  }
+
+  const groupId = group?.groupId;
+  try {
+    // A CSV holds one table, so a full CSV export is one file per table
+    const files =
+      format === "csv"
+        ? await Promise.all(
+            (table ? [table] : EXPORT_TABLES).map(async (t) => ({
+              fileName: exportFileName(t, "csv"),
+              mimeType: "text/csv",
+              contents: await exportCsv(t, groupId),
+            }))
+          )
+        : [{ fileName: exportFileName(table, "json"), mimeType: "application/json", contents: await exportJson(table, groupId) }];
+
+    for (const file of files) {
+      await queueDocument(chat.id._serialized, file);
+    }
+    await queueMessage(
+      chat.id._serialized,
+      `📤 Exported ${table ?? "goals, sprints and job runs"} for ${group ? group.groupName || group.groupId : "every group"}.\n\n` +
+        `_Send a goals file back with ${BOT_CONFIG.IMPORT_COMMAND} as its caption to import it._`
+    );
+  } catch (error) {
+    console.error("Error exporting data:", error);
+    await queueMessage(chat.id._serialized, "❌ Failed to export data. Check server logs.");
+  }
+};
+
+const MAX_REPORTED_ISSUES = 10;
+
+const formatIssues = (title: string, issues: ImportIssue[]): string => {
+  if (issues.length === 0) return "";
+  const lines = issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map((issue) => `• Row ${issue.row}${issue.id ? ` (${issue.id})` : ""}: ${issue.reason}`);
+  const more = issues.length > MAX_REPORTED_ISSUES ? `\n_...and ${issues.length - MAX_REPORTED_ISSUES} more_` : "";
+  return `\n\n*${title}:*\n${lines.join("\n")}${more}`;
+};
+
+const formatImportResult = (label: string, result: ImportResult, dryRun: boolean): string =>
+  `${label}: ${result.added} ${dryRun ? "to add" : "added"}, ${result.duplicates} already there, ` +
+  `${result.conflicts.length} conflicting, ${result.invalid.length} invalid`;
+
+// Handle !bot import [#group] [dry] - sent as the caption of a CSV or JSON file, or as a reply to one
+export const handleImportCommand = async (chat: Chat, message: Message, content: string) => {
+  const args = content.slice(BOT_CONFIG.IMPORT_COMMAND.length).trim().split(/\s+/).filter(Boolean);
+  const groupRef = args[0] && (args[0].startsWith("#") || args[0].endsWith("@g.us")) ? args.shift() : undefined;
+  const dryRun = args[0]?.toLowerCase() === "dry";
+  const group = findGroupState(groupRef);
+  if (!group) {
+    await queueMessage(chat.id._serialized, groupNotFoundMessage(groupRef));
+    return;
+  }
+
+  const fileMessage = message.hasMedia ? message : message.hasQuotedMsg ? await message.getQuotedMessage() : null;
+  if (!fileMessage?.hasMedia) {
+    await queueMessage(
+      chat.id._serialized,
+      `*📥 Import Goals*\n\n` +
+        `Send a CSV or JSON file with *${BOT_CONFIG.IMPORT_COMMAND} [#group] [dry]* as its caption, or reply to a file with it.\n\n` +
+        `*CSV columns:* userId and text, plus optional id, sprintNumber, status, createdAt and completedAt. ` +
+        `Goals are placed in sprints by date (a sprint's start date, or createdAt for rows without a sprint); ` +
+        `sprints from before the group's first one are created. Imports only add past sprints, never the current one.\n` +
+        `*JSON:* a file from ${BOT_CONFIG.EXPORT_COMMAND} (goals, sprints and job runs) or an array of goals.\n\n` +
+        `Goals whose ID is already stored are skipped - identical ones as duplicates, different ones as conflicts. ` +
+        `Add _dry_ to check a file without importing it.`
+    );
+    return;
+  }
+
+  try {
+    const media = await fileMessage.downloadMedia();
+    const parsed = parseImport(Buffer.from(media.data, "base64").toString("utf8"));
+    const report = await importData(group.groupId, parsed, dryRun);
+
+    const renumbered = report.sprintsRenumbered
+      ? ` (existing sprints ${dryRun ? "would move" : "moved"} up by ${report.sprintsCreated.length})`
+      : "";
+    const sprints = report.sprintsCreated.length
+      ? `\n🗓️ Sprints ${dryRun ? "to create" : "created"}: ${report.sprintsCreated.join(", ")}${renumbered}`
+      : "";
+    const jobRuns = parsed.jobRuns.length ? `\n📜 ${formatImportResult("Job runs", report.jobRuns, dryRun)}` : "";
+    await queueMessage(
+      chat.id._serialized,
+      `*📥 ${dryRun ? "Import check (nothing saved)" : "Import finished"} - ${group.groupName || group.groupId}*\n\n` +
+        `🎯 ${formatImportResult("Goals", report.goals, dryRun)}${jobRuns}${sprints}` +
+        formatIssues("Conflicts (kept the stored version)", [...report.goals.conflicts, ...report.jobRuns.conflicts]) +
+        formatIssues("Invalid rows (skipped)", [...report.goals.invalid, ...report.jobRuns.invalid])
+    );
+  } catch (error) {
+    console.error("Error importing data:", error);
+    await queueMessage(
+      chat.id._serialized,
+      `❌ Couldn't import that file: ${error instanceof Error ? error.message : error}`
+    );
+  }
+};
+
+// Match a member by full ID, the 6-digit short ID from stats, alias or WhatsApp name
+const findMembers = (members: Member[], ref: string): Member[] => {
+  const lower = ref.toLowerCase().replace(/^\.\.\./, "");
+  const exact = members.filter((m) => [m.userId, m.phoneId, m.lid].includes(ref));
+  if (exact.length > 0) return exact;
+  return members.filter(
+    (m) =>
+      shortUserId(m.userId) === lower ||
+      m.alias?.toLowerCase() === lower ||
+      m.displayName.toLowerCase() === lower
+  );
+};
+
+const describeMember = (member: Member, groupTimezone: string): string =>
+  `*👤 ${memberName(member, member.userId)}*${member.alias && member.displayName ? ` _(${member.displayName} on WhatsApp)_` : ""}\n\n` +
+  `🆔 ${member.userId}\n` +
+  (member.phoneId && member.phoneId !== member.userId ? `📱 ${member.phoneId}\n` : "") +
+  (member.lid && member.lid !== member.userId ? `🔗 ${member.lid}\n` : "") +
+  `📅 Joined: ${formatDate(member.joinedAt, groupTimezone)}\n` +
+  `👀 Last seen: ${member.lastSeenAt ? formatDate(member.lastSeenAt, groupTimezone) : "never"}\n` +
+  `🌏 Timezone: ${member.timezone ?? `${groupTimezone} (group)`}\n` +
+  `🏆 Leaderboard: ${member.leaderboardOptIn ? "shown" : "hidden"}\n` +
+  `📊 Goal tracking: ${member.trackingOptIn ? "on" : "off"}`;
+
+// Handle !bot member [#group] <member> [alias <name>|timezone <tz>|leaderboard on|off] - view or edit a member
+export const handleMemberCommand = async (chat: Chat, content: string) => {
+  const args = content.slice(BOT_CONFIG.MEMBER_COMMAND.length).trim().split(/\s+/).filter(Boolean);
+  const groupRef = args[0] && (args[0].startsWith("#") || args[0].endsWith("@g.us")) ? args.shift() : undefined;
+  const group = findGroupState(groupRef);
+  if (!group) {
+    await queueMessage(chat.id._serialized, groupNotFoundMessage(groupRef));
+    return;
+  }
+
+  const usage =
+    `*Usage:* ${BOT_CONFIG.MEMBER_COMMAND} [#group] <member> [alias <name>|alias clear|timezone <tz>|timezone clear|leaderboard on|off]\n\n` +
+    `_<member> is an ID from ${BOT_CONFIG.USERS_COMMAND}, the 6-digit short ID from ${BOT_CONFIG.STATS_COMMAND}, or a name_`;
+
+  // Everything before the first setting keyword names the member, so names can have spaces
+  const settingIndex = args.findIndex((arg) => ["alias", "timezone", "leaderboard"].includes(arg.toLowerCase()));
+  const ref = (settingIndex === -1 ? args : args.slice(0, settingIndex)).join(" ");
+  const [setting, ...rest] = settingIndex === -1 ? [] : args.slice(settingIndex);
+  const value = rest.join(" ");
+  if (!ref) {
+    await queueMessage(chat.id._serialized, usage);
+    return;
+  }
+
+  try {
+    const matches = findMembers(await getMembers(group.groupId), ref);
+    if (matches.length === 0) {
+      await queueMessage(
+        chat.id._serialized,
+        `❌ No member "${ref}" in ${group.groupName || group.groupId}. List them with ${BOT_CONFIG.USERS_COMMAND}.`
+      );
+      return;
+    }
+    if (matches.length > 1) {
+      await queueMessage(
+        chat.id._serialized,
+        `❓ "${ref}" matches ${matches.length} members - use their ID:\n\n` +
+          matches.map((m) => `• ${m.userId} - ${memberName(m, m.userId)}`).join("\n")
+      );
+      return;
+    }
+    const [member] = matches;
+
+    if (!setting) {
+      await queueMessage(chat.id._serialized, describeMember(member, group.timezone));
+      return;
+    }
+
+    let changes: MemberChanges;
+    const clear = value.toLowerCase() === "clear";
+    if (setting.toLowerCase() === "alias" && value) {
+      changes = { alias: clear ? null : value };
+    } else if (setting.toLowerCase() === "timezone" && value) {
+      if (!clear && !isValidTimezone(value)) {
+        await queueMessage(
+          chat.id._serialized,
+          `❌ Unknown timezone "${value}". Use an IANA name such as Pacific/Auckland or America/New_York.`
+        );
+        return;
+      }
+      changes = { timezone: clear ? null : value };
+    } else if (setting.toLowerCase() === "leaderboard" && ["on", "off"].includes(value.toLowerCase())) {
+      changes = { leaderboardOptIn: value.toLowerCase() === "on" };
+    } else {
+      await queueMessage(chat.id._serialized, usage);
+      return;
+    }
+
+    const updated = await updateMember(group.groupId, member.userId, changes);
+    if (!updated) {
+      await queueMessage(chat.id._serialized, "❌ That member was just removed. Try again.");
+      return;
+    }
+    await queueMessage(chat.id._serialized, `✅ Updated.\n\n${describeMember(updated, group.timezone)}`);
+  } catch (error) {
+    console.error("Error updating member:", error);
+    await queueMessage(chat.id._serialized, "❌ Failed to update member. Check server logs.");
   }
 };
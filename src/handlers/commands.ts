@@ -2,18 +2,47 @@
 import type { Message, Chat, GroupChat } from "whatsapp-web.js";
 
 import { BOT_CONFIG } from "../config";
-import { botStatus, schedulerActive, setLastKickoff, clearScheduledJobs, setSchedulerActive, setMissedJobsCache, updateNextScheduledTasks } from "../state";
-import { setupScheduledMessages, stopScheduler } from "../scheduler";
-import { getActiveGoals, getGoalHistory, getUserStats } from "../goalStore";
+import type { GroupState } from "../state";
+import {
+  botStatus,
+  getGroupState,
+  getAllGroupStates,
+  setMissedJobsCache,
+  updateNextScheduledTasks,
+} from "../state";
+import { setupScheduledMessages, stopScheduler, queueKickoff } from "../scheduler";
+import type { Goal } from "../goalStore";
+import {
+  getActiveGoals,
+  getGoalHistory,
+  getUserStats,
+  carryOverAllGoals,
+  addGoals,
+  completeGoal,
+  dropGoal,
+  updateGoalText,
+  restoreGoal,
+  deleteGoal,
+  listGoals,
+  setLastGoalChange,
+  takeLastGoalChange,
+} from "../goalStore";
+import { sendLeftoverGoalPrompts } from "../goalReview";
 import { isLLMReady, generateMentorship } from "../llm";
+import { forgetMember, getMember, setTracking } from "../memberStore";
 import { recordManualTrigger, getMissedJobs } from "../jobTracker";
+import { renderMessage } from "../templates";
+import { renderSprintReview } from "../sprintDigest";
+import { queueMessage, queueReply, queueReact, queueDocument } from "../outbox";
+import { now } from "../clock";
 
 export const handleStartCommand = async (chat: Chat) => {
-  if (schedulerActive) {
-    await chat.sendMessage("🤖 I'm already running! The scheduled message service is active.");
+  if (getGroupState(chat.id._serialized).schedulerActive) {
+    await queueMessage(chat.id._serialized, "🤖 I'm already running! The scheduled message service is active.");
   } else {
     const success = await setupScheduledMessages(chat as GroupChat);
-    await chat.sendMessage(
+    await queueMessage(
+      chat.id._serialized,
       success
         ? "📆 Scheduled message service started! I will now post regular updates according to the schedule."
         : "❌ Failed to start scheduled message service. Please check server logs."
@@ -22,34 +51,48 @@ export const handleStartCommand = async (chat: Chat) => {
 };
 
 export const handleStopCommand = async (chat: Chat) => {
-  if (!schedulerActive) {
-    await chat.sendMessage("🤖 I'm not currently running any scheduled messages.");
+  if (!getGroupState(chat.id._serialized).schedulerActive) {
+    await queueMessage(chat.id._serialized, "🤖 I'm not currently running any scheduled messages.");
   } else {
-    stopScheduler();
-    await chat.sendMessage("🛑 Scheduled message service stopped.");
+    await stopScheduler(chat.id._serialized);
+    await queueMessage(chat.id._serialized, "🛑 Scheduled message service stopped.");
   }
 };
 
-export const handleStatusCommand = async (chat: Chat) => {
+const formatGroupStatus = (state: GroupState): string => {
   let status =
-    `*Bot Status Report*\n\n` +
-    `🤖 Active: ${botStatus.isActive ? "Yes ✅" : "No ❌"}\n` +
-    `⏱️ Uptime: ${botStatus.uptime()}\n` +
-    `👥 Target Group: ${botStatus.targetGroupName || "Not set"}\n` +
-    `📊 Scheduled Tasks: ${botStatus.scheduledTasksCount}\n\n` +
+    `👥 Group: ${state.groupName || state.groupId}\n` +
+    `🤖 Active: ${state.schedulerActive ? "Yes ✅" : "No ❌"}\n` +
+    `📊 Scheduled Tasks: ${botStatus.scheduledTasksCount(state.groupId)}\n\n` +
     `*Upcoming Messages:*\n${
-      botStatus.nextScheduledTasks.length
-        ? botStatus.nextScheduledTasks.map((task) => `- ${task}`).join("\n")
+      state.nextScheduledTasks.length
+        ? state.nextScheduledTasks.map((task) => `- ${task}`).join("\n")
         : "No upcoming messages scheduled."
     }`;
-  
-  if (botStatus.missedJobsDisplay.length > 0) {
+
+  if (state.missedJobsDisplay.length > 0) {
     status += `\n\n⚠️ *Missed (needs manual trigger):*\n${
-      botStatus.missedJobsDisplay.map((job) => `- ${job}`).join("\n")
+      state.missedJobsDisplay.map((job) => `- ${job}`).join("\n")
     }`;
   }
-  
-  await chat.sendMessage(status);
+
+  return status;
+};
+
+// In a group, report that group's status. In the admin DM, report every known group.
+export const handleStatusCommand = async (chat: Chat) => {
+  const header = `*Bot Status Report*\n\n⏱️ Uptime: ${botStatus.uptime()}\n\n`;
+
+  if (chat.isGroup) {
+    await queueMessage(chat.id._serialized, header + formatGroupStatus(getGroupState(chat.id._serialized, chat.name)));
+    return;
+  }
+
+  const groups = getAllGroupStates();
+  const body = groups.length
+    ? groups.map(formatGroupStatus).join("\n\n―――――――――\n\n")
+    : "👥 No groups registered yet. Use !bot start in a group.";
+  await queueMessage(chat.id._serialized, header + body);
 };
 
 export const handleHelpCommand = async (chat: Chat, isAdmin: boolean = false) => {
@@ -57,13 +100,22 @@ export const handleHelpCommand = async (chat: Chat, isAdmin: boolean = false) =>
     const helpText =
       `*Admin Commands (Direct Message)*\n\n` +
       `📊 *${BOT_CONFIG.STATUS_COMMAND}* - Show bot status\n` +
-      `📈 *${BOT_CONFIG.STATS_COMMAND}* - View goal tracking stats\n` +
+      `📈 *${BOT_CONFIG.STATS_COMMAND} [group]* - View goal tracking stats\n` +
       `💬 *${BOT_CONFIG.CHAT_COMMAND} <message>* - Chat with AI about the data\n` +
-      `👥 *${BOT_CONFIG.USERS_COMMAND}* - List group members with IDs\n` +
-      `📥 *${BOT_CONFIG.INGEST_COMMAND} <userId>* - Manually ingest goals\n` +
+      `👥 *${BOT_CONFIG.USERS_COMMAND} [group]* - List group members with IDs\n` +
+      `👤 *${BOT_CONFIG.MEMBER_COMMAND} [#group] <member>* - View a member, or set their alias, timezone or leaderboard spot\n` +
+      `🏘️ *${BOT_CONFIG.GROUPS_COMMAND}* - List groups the bot serves\n` +
+      `🗓️ *${BOT_CONFIG.SCHEDULE_COMMAND} [#group]* - View or change a group's schedule\n` +
+      `📝 *${BOT_CONFIG.TEMPLATE_COMMAND} [#group]* - Preview or edit post templates\n` +
+      `🌏 *${BOT_CONFIG.TIMEZONE_COMMAND} [#group] [timezone]* - View or change a group's timezone\n` +
+      `📜 *${BOT_CONFIG.JOBS_COMMAND} [#group] [job|stats]* - Job run history, retry or dismiss runs\n` +
+      `📥 *${BOT_CONFIG.INGEST_COMMAND} <userId> [group]* - Manually ingest goals\n` +
+      `📤 *${BOT_CONFIG.EXPORT_COMMAND} [#group|all] [table] [csv|json]* - Export goals, sprints and job runs\n` +
+      `🗃️ *${BOT_CONFIG.IMPORT_COMMAND} [#group] [dry]* - Import goals from a CSV or JSON file\n` +
       `🛟 *${BOT_CONFIG.HELP_COMMAND}* - Show this help\n\n` +
-      `*Note:* Start/stop commands must be used in the target group chat.`;
-    await chat.sendMessage(helpText);
+      `*Note:* Start/stop commands must be used in the target group chat. ` +
+      `_[group]_ is a number from ${BOT_CONFIG.GROUPS_COMMAND} or a group ID.`;
+    await queueMessage(chat.id._serialized, helpText);
   } else {
     const helpText =
       `*Available Commands*\n\n` +
@@ -76,70 +128,81 @@ export const handleHelpCommand = async (chat: Chat, isAdmin: boolean = false) =>
       `📅 *${BOT_CONFIG.DEMO_COMMAND}* - Trigger Demo Day\n` +
       `📅 *${BOT_CONFIG.MONTHLY_COMMAND}* - Trigger Monthly Celebration\n` +
       `📋 *${BOT_CONFIG.GOALS_COMMAND}* - Show your active goals\n` +
-      `🧭 *${BOT_CONFIG.MENTOR_COMMAND}* - Get AI mentorship on your goals`;
-    await chat.sendMessage(helpText);
+      `➕ *${BOT_CONFIG.GOAL_ADD_COMMAND} <text>* - Add a goal\n` +
+      `✅ *${BOT_CONFIG.DONE_COMMAND} <n>* - Mark goal number n as done\n` +
+      `🗑️ *${BOT_CONFIG.DROP_COMMAND} <n>* - Drop goal number n\n` +
+      `✏️ *${BOT_CONFIG.EDIT_COMMAND} <n> <text>* - Reword goal number n\n` +
+      `↩️ *${BOT_CONFIG.UNDO_COMMAND}* - Undo your last goal change\n` +
+      `🧭 *${BOT_CONFIG.MENTOR_COMMAND}* - Get AI mentorship on your goals\n` +
+      `🔕 *${BOT_CONFIG.OPTOUT_COMMAND}* / *${BOT_CONFIG.OPTIN_COMMAND}* - Stop or resume reading your messages for goals\n` +
+      `📬 *${BOT_CONFIG.MYDATA_COMMAND}* - Get everything stored about you by DM\n` +
+      `🧹 *${BOT_CONFIG.FORGET_COMMAND}* - Delete your goals and everything else stored about you`;
+    await queueMessage(chat.id._serialized, helpText);
   }
 };
 
-async function refreshMissedJobsCache(): Promise<void> {
-  const missedJobs = await getMissedJobs();
-  setMissedJobsCache(missedJobs);
-  updateNextScheduledTasks();
+async function refreshMissedJobsCache(groupId: string): Promise<void> {
+  const missedJobs = await getMissedJobs(groupId);
+  setMissedJobsCache(groupId, missedJobs);
+  updateNextScheduledTasks(groupId);
 }
 
-export const handleMondayCommand = async (chat: Chat) => {
-  const kickoffMsg = await chat.sendMessage(
-    "*Sprint Kickoff* 🚀\n\n👉 What are your main goals for the next 2 weeks?\n\nShare below and let's crush this sprint together! 💪"
-  );
-  setLastKickoff(kickoffMsg.id._serialized, new Date());
-  const resolved = await recordManualTrigger("monday", kickoffMsg.id._serialized);
-  if (resolved) {
-    await refreshMissedJobsCache();
+// Jobs an admin can post by hand (the check-in only runs on schedule)
+export type ManualJobType = "monday" | "friday" | "demo" | "monthEnd";
+
+// Post a job now (from a group command or the dashboard), resolving any missed run it
+// stands in for. The run records the posted message once the outbox delivers it.
+export const triggerPost = async (groupId: string, jobType: ManualJobType): Promise<void> => {
+  const { runId, resolvedMissed } = await recordManualTrigger(groupId, jobType);
+
+  if (jobType === "monday") {
+    await queueKickoff(groupId, { key: `manual:${runId}` }, runId);
+  } else {
+    let text: string;
+    if (jobType === "friday") {
+      await sendLeftoverGoalPrompts(groupId);
+      text = await renderSprintReview(groupId);
+    } else {
+      text = await renderMessage(groupId, jobType);
+    }
+    await queueMessage(groupId, text, { key: `manual:${runId}`, onDelivered: { type: "jobRunMessage", runId } });
+  }
+
+  if (resolvedMissed) {
+    await refreshMissedJobsCache(groupId);
   }
 };
 
+export const handleMondayCommand = async (chat: Chat) => {
+  await triggerPost(chat.id._serialized, "monday");
+};
+
 export const handleFridayCommand = async (chat: Chat) => {
-  const msg = await chat.sendMessage(
-    "*Sprint Review* 🔍\n\n👉 How did you do on your sprint goals?\n\nShare your wins, learnings, and let's celebrate our growth! 🎉"
-  );
-  const resolved = await recordManualTrigger("friday", msg.id._serialized);
-  if (resolved) {
-    await refreshMissedJobsCache();
-  }
+  await triggerPost(chat.id._serialized, "friday");
 };
 
 export const handleDemoCommand = async (chat: Chat) => {
-  const msg = await chat.sendMessage(
-    "*Demo day*\n\n👉 Share what you've been cooking up!\n\nThere is no specific format. Could be a short vid, link, screenshot or picture. 🏆"
-  );
-  const resolved = await recordManualTrigger("demo", msg.id._serialized);
-  if (resolved) {
-    await refreshMissedJobsCache();
-  }
+  await triggerPost(chat.id._serialized, "demo");
 };
 
 export const handleMonthlyCommand = async (chat: Chat) => {
-  const msg = await chat.sendMessage(
-    "*Monthly Celebration* 🎊\n\nAs we close out the month, take a moment to reflect on your accomplishments!\n\nBe proud of what you've achieved ✨"
-  );
-  const resolved = await recordManualTrigger("monthEnd", msg.id._serialized);
-  if (resolved) {
-    await refreshMissedJobsCache();
-  }
+  await triggerPost(chat.id._serialized, "monthEnd");
 };
 
 export const handleGoalsCommand = async (chat: Chat, message: Message) => {
   const userId = message.author || message.from;
-  const activeGoals = await getActiveGoals(userId);
+  const activeGoals = await getActiveGoals(chat.id._serialized, userId);
   
   if (activeGoals.length === 0) {
-    await chat.sendMessage(
+    await queueMessage(
+      chat.id._serialized,
       "📋 You don't have any active goals yet.\n\nReply to a Sprint Kickoff message to set your goals!"
     );
   } else {
     const goalsList = activeGoals.map((g, i) => `${i + 1}. ${g.text}`).join("\n");
-    await chat.sendMessage(
-      `*Your Active Goals* 📋\n\n${goalsList}\n\n_Mark as done by posting an update with "done", "finished", or "completed"_`
+    await queueMessage(
+      chat.id._serialized,
+      `*Your Active Goals* 📋\n\n${goalsList}\n\n_Mark as done with ${BOT_CONFIG.DONE_COMMAND} <number>, or post an update with "done", "finished", or "completed"_`
     );
   }
 };
@@ -147,32 +210,41 @@ export const handleGoalsCommand = async (chat: Chat, message: Message) => {
 export const handleMentorCommand = async (chat: Chat, message: Message) => {
   const userId = message.author || message.from;
 
-  if (!isLLMReady()) {
-    await chat.sendMessage("🤖 AI mentor isn't available right now. Try again later!");
+  if (!isLLMReady("mentorship")) {
+    await queueMessage(chat.id._serialized, "🤖 AI mentor isn't available right now. Try again later!");
     return;
   }
 
-  const activeGoals = await getActiveGoals(userId);
-  const history = await getGoalHistory(userId, 3);
-  const stats = await getUserStats(userId);
+  const groupId = chat.id._serialized;
+  const activeGoals = await getActiveGoals(groupId, userId);
+  const history = await getGoalHistory(groupId, userId, 3);
+  const stats = await getUserStats(groupId, userId);
 
   if (stats.totalGoals === 0) {
-    await chat.sendMessage(
+    await queueMessage(
+      chat.id._serialized,
       "🧭 I don't have any goal data for you yet!\n\nSet some goals in the next Sprint Kickoff and I'll be able to provide personalized mentorship."
     );
     return;
   }
 
-  await chat.sendMessage("🧭 _Reviewing your goals and progress..._");
+  await queueMessage(chat.id._serialized, "🧭 _Reviewing your goals and progress..._");
 
-  const mentorship = await generateMentorship({ activeGoals, history, stats });
+  const member = await getMember(groupId, userId);
+  const mentorship = await generateMentorship({
+    name: member?.alias || member?.displayName || undefined,
+    activeGoals,
+    history,
+    stats,
+  });
 
   if (mentorship) {
-    await chat.sendMessage(`*Your Mentor Check-in* 🧭\n\n${mentorship}`);
+    await queueMessage(chat.id._serialized, `*Your Mentor Check-in* 🧭\n\n${mentorship}`);
   } else {
     // Fallback if LLM fails
     const completionEmoji = stats.completionRate >= 70 ? "🔥" : stats.completionRate >= 40 ? "👍" : "💪";
-    await chat.sendMessage(
+    await queueMessage(
+      chat.id._serialized,
       `*Your Progress* 📊\n\n` +
         `${completionEmoji} Completion rate: ${stats.completionRate}%\n` +
         `🎯 Goals completed: ${stats.completedGoals}/${stats.totalGoals}\n` +
@@ -181,3 +253,197 @@ export const handleMentorCommand = async (chat: Chat, message: Message) => {
     );
   }
 };
+
+// ============================================
+// GOAL MANAGEMENT - numbered like !bot goals
+// ============================================
+
+// Parse goal numbers like "2" or "1, 3" into active goals. Returns null if any number is out of range.
+const pickGoals = (activeGoals: Goal[], numbers: string): Goal[] | null => {
+  const indexes = (numbers.match(/\d+/g) ?? []).map((n) => parseInt(n, 10) - 1);
+  if (indexes.length === 0 || indexes.some((i) => i < 0 || i >= activeGoals.length)) {
+    return null;
+  }
+  return [...new Set(indexes)].map((i) => activeGoals[i]);
+};
+
+const invalidGoalNumberMessage = (count: number) =>
+  count === 0
+    ? "📋 You don't have any active goals."
+    : `❌ Pick a goal number from 1 to ${count}. Use ${BOT_CONFIG.GOALS_COMMAND} to see the list.`;
+
+export const handleGoalAddCommand = async (chat: Chat, message: Message, content: string) => {
+  const groupId = chat.id._serialized;
+  const userId = message.author || message.from;
+  const goalTexts = content
+    .slice(BOT_CONFIG.GOAL_ADD_COMMAND.length)
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  if (goalTexts.length === 0) {
+    await queueReply(message, `Usage: ${BOT_CONFIG.GOAL_ADD_COMMAND} <goal text> (one goal per line)`);
+    return;
+  }
+
+  const added = await addGoals(groupId, userId, goalTexts);
+  await setLastGoalChange(groupId, userId, { action: "add", goals: added });
+  await queueReply(message, `➕ Added ${added.map((g) => `"${g.text}"`).join(", ")}`);
+};
+
+export const handleGoalStatusCommand = async (
+  chat: Chat,
+  message: Message,
+  content: string,
+  action: "done" | "drop"
+) => {
+  const groupId = chat.id._serialized;
+  const userId = message.author || message.from;
+  const prefix = action === "done" ? BOT_CONFIG.DONE_COMMAND : BOT_CONFIG.DROP_COMMAND;
+  const activeGoals = await getActiveGoals(groupId, userId);
+  const picked = pickGoals(activeGoals, content.slice(prefix.length));
+
+  if (!picked) {
+    await queueReply(message, invalidGoalNumberMessage(activeGoals.length));
+    return;
+  }
+
+  const changed: Goal[] = [];
+  for (const goal of picked) {
+    const updated = action === "done" ? await completeGoal(userId, goal.id) : await dropGoal(userId, goal.id);
+    if (updated) changed.push(goal);
+  }
+
+  // The goals changed under us (e.g. a duplicate command) - nothing to report or undo
+  if (changed.length === 0) {
+    await queueReply(message, `🤷 Nothing matched. Use ${BOT_CONFIG.GOALS_COMMAND} to see your current goals.`);
+    return;
+  }
+
+  await setLastGoalChange(groupId, userId, { action, goals: changed });
+  if (action === "done") {
+    await queueReact(message, "🎉");
+  }
+  await queueReply(
+    message,
+    `${action === "done" ? "✅ Done" : "🗑️ Dropped"}: ${changed.map((g) => `"${g.text}"`).join(", ")}\n\n_${BOT_CONFIG.UNDO_COMMAND} to revert_`
+  );
+};
+
+export const handleGoalEditCommand = async (chat: Chat, message: Message, content: string) => {
+  const groupId = chat.id._serialized;
+  const userId = message.author || message.from;
+  const match = content.slice(BOT_CONFIG.EDIT_COMMAND.length).trim().match(/^(\d+)\s+([\s\S]+)$/);
+
+  if (!match) {
+    await queueReply(message, `Usage: ${BOT_CONFIG.EDIT_COMMAND} <number> <new text>`);
+    return;
+  }
+
+  const activeGoals = await getActiveGoals(groupId, userId);
+  const picked = pickGoals(activeGoals, match[1]);
+  if (!picked) {
+    await queueReply(message, invalidGoalNumberMessage(activeGoals.length));
+    return;
+  }
+
+  const [goal] = picked;
+  const updated = await updateGoalText(userId, goal.id, match[2].trim());
+  if (!updated) {
+    await queueReply(message, "❌ Couldn't update that goal.");
+    return;
+  }
+
+  await setLastGoalChange(groupId, userId, { action: "edit", goals: [goal] });
+  await queueReply(message, `✏️ Goal ${match[1]} is now "${updated.text}"`);
+};
+
+export const handleUndoCommand = async (chat: Chat, message: Message) => {
+  const groupId = chat.id._serialized;
+  const userId = message.author || message.from;
+  const change = await takeLastGoalChange(groupId, userId);
+
+  if (!change) {
+    await queueReply(message, "↩️ Nothing to undo.");
+    return;
+  }
+
+  for (const goal of change.goals) {
+    if (change.action === "add") {
+      await deleteGoal(userId, goal.id);
+    } else {
+      await restoreGoal(userId, goal.id, goal);
+    }
+  }
+
+  const verb = { add: "Removed", done: "Reopened", drop: "Restored", edit: "Reverted" }[change.action];
+  await queueReply(message, `↩️ ${verb}: ${change.goals.map((g) => `"${g.text}"`).join(", ")}`);
+};
+
+// Handle !bot optout / !bot optin - stop or resume reading the sender's messages for goals
+export const handleTrackingCommand = async (chat: Chat, message: Message, enabled: boolean) => {
+  const userId = message.author || message.from;
+  await setTracking(chat.id._serialized, userId, enabled);
+  await queueReply(
+    message,
+    enabled
+      ? "🔔 Welcome back! I'll pick up goals and completions from your messages again."
+      : `🔕 Done - I won't read your messages for goals or completions any more, and you're left off the leaderboard and out of AI summaries.\n\n` +
+          `Your existing goals stay (${BOT_CONFIG.FORGET_COMMAND} deletes them) and commands like ${BOT_CONFIG.GOAL_ADD_COMMAND} still work. ` +
+          `${BOT_CONFIG.OPTIN_COMMAND} turns tracking back on.`
+  );
+};
+
+// Handle !bot forgetme [confirm] - delete the sender's goals and member record
+export const handleForgetMeCommand = async (chat: Chat, message: Message, content: string) => {
+  const groupId = chat.id._serialized;
+  const userId = message.author || message.from;
+
+  if (content.slice(BOT_CONFIG.FORGET_COMMAND.length).trim().toLowerCase() !== "confirm") {
+    await queueReply(
+      message,
+      `🧹 This deletes all your goals in this group and everything else I store about you, and can't be undone.\n\n` +
+        `Send *${BOT_CONFIG.FORGET_COMMAND} confirm* to go ahead, or ${BOT_CONFIG.MYDATA_COMMAND} to get a copy first.`
+    );
+    return;
+  }
+
+  const { goals, keptOptOut } = await forgetMember(groupId, userId);
+  await queueReply(
+    message,
+    `🧹 Done - I've deleted ${goals} goal${goals === 1 ? "" : "s"} and everything else I stored about you.\n\n` +
+      (keptOptOut
+        ? `I've only kept a note that you opted out, so I still won't read your messages; ${BOT_CONFIG.OPTIN_COMMAND} undoes that.`
+        : `If you post goals again I'll start afresh; ${BOT_CONFIG.OPTOUT_COMMAND} stops that.`)
+  );
+};
+
+// Handle !bot mydata - DM the sender a JSON file of everything stored about them in this group
+export const handleMyDataCommand = async (chat: Chat, message: Message) => {
+  const groupId = chat.id._serialized;
+  const userId = message.author || message.from;
+  const member = await getMember(groupId, userId);
+  const { goals } = await listGoals(
+    { groupId, userId: member?.userId ?? userId, includePending: true },
+    { skip: 0, take: 10_000 }
+  );
+
+  const data = {
+    exportedAt: now().toISOString(),
+    group: { id: groupId, name: chat.name },
+    member,
+    goals,
+  };
+  const dmChatId = member?.phoneId ?? userId;
+  await queueDocument(dmChatId, {
+    fileName: "koruclub-my-data.json",
+    mimeType: "application/json",
+    contents: JSON.stringify(data, null, 2),
+  });
+  await queueMessage(
+    dmChatId,
+    `📬 Here's everything I store about you in ${chat.name}: your profile and ${goals.length} goal${goals.length === 1 ? "" : "s"}.\n\n` +
+      `Send ${BOT_CONFIG.FORGET_COMMAND} in the group to delete it.`
+  );
+  await queueReply(message, "📬 I've sent you a DM with everything I store about you.");
+};
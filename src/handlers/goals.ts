@@ -1,14 +1,132 @@
 // Goal extraction and completion handling
-import type { Message } from "whatsapp-web.js";
+import type { Message, Reaction } from "whatsapp-web.js";
 
 import { COMPLETION_KEYWORDS, KICKOFF_WINDOW_HOURS } from "../config";
-import { lastKickoffMessageId, lastKickoffTime } from "../state";
-import { getActiveGoals, addGoals, completeGoal } from "../goalStore";
+import { now } from "../clock";
+import { getCurrentSprint } from "../sprintStore";
+import {
+  getActiveGoals,
+  addGoals,
+  completeGoal,
+  dropGoal,
+  setGoalsConfirmMessage,
+  getPendingGoalsByMessage,
+  confirmPendingGoals,
+  discardPendingGoals,
+} from "../goalStore";
+import { getPendingReview, getLatestReviewInChat, clearPendingReview, parseLeftoverReply } from "../goalReview";
+import { CONFIRM_PROMPT, CONFIRM_REACTIONS, DISCARD_REACTIONS, parseConfirmationReply } from "../goalConfirmation";
 import { isLLMReady, extractGoals, matchCompletions, generateResponse } from "../llm";
+import { queueReply, queueReact, onDelivered } from "../outbox";
+import { goalEvents } from "../metrics";
+import { isTrackingEnabled } from "../memberStore";
+
+// Pending goals are tied to their confirmation prompt once it's delivered - until then
+// they can't be answered, and confirm on the timeout like any unanswered prompt
+onDelivered("goalConfirmation", async (hook, messageId) => {
+  if (messageId) await setGoalsConfirmMessage(hook.goalIds as string[], messageId);
+});
+
+// Handle a DM answering a leftover goals prompt - a reply quoting the prompt, or an unquoted
+// answer to the latest one. Returns true if the message was one.
+export const handleLeftoverReply = async (message: Message, content: string): Promise<boolean> => {
+  const quotedMsg = await message.getQuotedMessage().catch(() => null);
+  const review = quotedMsg
+    ? await getPendingReview(quotedMsg.id._serialized)
+    : await getLatestReviewInChat(message.from);
+  if (!review) return false;
+
+  const actions = parseLeftoverReply(content, review.goalIds.length);
+  if (actions.size === 0) {
+    // Unquoted DMs that don't read as an answer aren't about the review
+    if (!quotedMsg) return false;
+    await queueReply(message, `🤔 I didn't catch that. Try something like "done 1, drop 2" or "keep all".`);
+    return true;
+  }
+
+  const results: string[] = [];
+  for (const [index, action] of actions) {
+    const goalId = review.goalIds[index];
+    if (action === "done") {
+      const goal = await completeGoal(review.userId, goalId);
+      if (goal) results.push(`✅ ${goal.text}`);
+    } else if (action === "drop") {
+      const goal = await dropGoal(review.userId, goalId);
+      if (goal) results.push(`🗑️ ${goal.text}`);
+    } else {
+      results.push(`⏭️ Goal ${index + 1} carries over`);
+    }
+  }
+
+  if (actions.size === review.goalIds.length) {
+    await clearPendingReview(review.id);
+  }
+
+  await queueReply(message, `Got it!\n\n${results.join("\n")}`);
+  return true;
+};
+
+// Handle a quoted reply to a goal confirmation prompt. Returns true if the message was one.
+export const handlePendingGoalReply = async (message: Message, content: string): Promise<boolean> => {
+  const quotedMsg = await message.getQuotedMessage().catch(() => null);
+  if (!quotedMsg) return false;
+
+  const userId = message.author || message.from;
+  const pending = (await getPendingGoalsByMessage(quotedMsg.id._serialized)).filter((g) => g.userId === userId);
+  if (pending.length === 0) return false;
+
+  const reply = parseConfirmationReply(content);
+  if (!reply) {
+    await queueReply(message, `🤔 Reply ✅ to confirm, ❌ to discard, or *edit:* followed by your goals, one per line.`);
+    return true;
+  }
+
+  const goalIds = pending.map((g) => g.id);
+  if (reply.action === "confirm") {
+    await confirmPendingGoals(goalIds);
+    await queueReact(message, "✅");
+  } else if (reply.action === "discard") {
+    await discardPendingGoals(goalIds);
+    await queueReply(message, "🗑️ Discarded, I won't track those.");
+  } else {
+    await discardPendingGoals(goalIds);
+    const saved = await addGoals(pending[0].groupId, userId, reply.goals);
+    const goalsList = saved.map((g, i) => `${i + 1}. ${g.text}`).join("\n");
+    await queueReply(message, `✏️ Updated! Tracking these instead:\n\n${goalsList}`);
+  }
+  return true;
+};
+
+// Confirm or discard pending goals when their owner reacts to the confirmation prompt
+export const handleGoalReaction = async (reaction: Reaction) => {
+  const confirm = CONFIRM_REACTIONS.includes(reaction.reaction);
+  if (!confirm && !DISCARD_REACTIONS.includes(reaction.reaction)) return;
+
+  try {
+    const pending = (await getPendingGoalsByMessage(reaction.msgId._serialized)).filter(
+      (g) => g.userId === reaction.senderId
+    );
+    if (pending.length === 0) return;
+
+    const goalIds = pending.map((g) => g.id);
+    const count = confirm ? await confirmPendingGoals(goalIds) : await discardPendingGoals(goalIds);
+    console.log(`[Confirm] ${confirm ? "Confirmed" : "Discarded"} ${count} goal(s) for ${reaction.senderId}`);
+  } catch (error) {
+    console.error("[Confirm] Failed to handle reaction:", error);
+  }
+};
 
 export const handleGoalMessage = async (message: Message, content: string) => {
+  const groupId = message.from;
   const userId = message.author || message.from;
 
+  // Opted-out members' messages never reach the LLM
+  if (!(await isTrackingEnabled(groupId, userId))) return;
+
+  const currentSprint = await getCurrentSprint(groupId);
+  const lastKickoffMessageId = currentSprint?.kickoffMessageId ?? null;
+  const lastKickoffTime = lastKickoffMessageId ? currentSprint!.startDate : null;
+
   // Check if reply to kickoff (goal setting)
   const quotedMsg = await message.getQuotedMessage().catch(() => null);
   const isReplyToKickoff =
@@ -19,14 +137,14 @@ export const handleGoalMessage = async (message: Message, content: string) => {
 
   // Check if within 48-hour kickoff window
   const isWithinKickoffWindow =
-    lastKickoffTime && Date.now() - lastKickoffTime.getTime() < KICKOFF_WINDOW_HOURS * 60 * 60 * 1000;
+    lastKickoffTime && now().getTime() - lastKickoffTime.getTime() < KICKOFF_WINDOW_HOURS * 60 * 60 * 1000;
 
   // Capture goals if replying to kickoff OR within the 48hr window
   const shouldExtractGoals = isReplyToKickoff || isWithinKickoffWindow;
 
-  if (shouldExtractGoals && isLLMReady()) {
+  if (shouldExtractGoals && isLLMReady("extraction")) {
     // Check if user already has goals this sprint to avoid duplicates
-    const existingGoals = await getActiveGoals(userId);
+    const existingGoals = await getActiveGoals(groupId, userId);
     const hasRecentGoals = existingGoals.length > 0;
 
     // Only auto-extract (non-reply) if user doesn't have goals yet
@@ -34,14 +152,19 @@ export const handleGoalMessage = async (message: Message, content: string) => {
       const extractedGoals = await extractGoals(content);
 
       if (extractedGoals.length > 0) {
-        await addGoals(userId, extractedGoals);
+        // Held as pending until the member confirms (or the confirmation times out)
+        const pendingGoals = await addGoals(groupId, userId, extractedGoals, "pending");
+        goalEvents.inc({ event: "extracted" }, extractedGoals.length);
 
         const response = await generateResponse("goal_captured", { goals: extractedGoals }, content);
         const goalsList = extractedGoals.map((g, i) => `${i + 1}. ${g}`).join("\n");
+        const intro =
+          response || `📝 Got it! I picked up ${extractedGoals.length} goal${extractedGoals.length > 1 ? 's' : ''}:`;
 
-        await message.reply(
-          response || `✅ Got it! I've captured ${extractedGoals.length} goal${extractedGoals.length > 1 ? 's' : ''}:\n\n${goalsList}\n\n_I'll track these for you this sprint!_`
-        );
+        await queueReply(message, `${intro}\n\n${goalsList}\n\n${CONFIRM_PROMPT}`, {
+          type: "goalConfirmation",
+          goalIds: pendingGoals.map((g) => g.id),
+        });
       }
     }
   }
@@ -49,8 +172,8 @@ export const handleGoalMessage = async (message: Message, content: string) => {
   // Check for completion keywords
   const hasCompletionKeyword = COMPLETION_KEYWORDS.some((kw) => content.toLowerCase().includes(kw.toLowerCase()));
 
-  if (hasCompletionKeyword && isLLMReady()) {
-    const activeGoals = await getActiveGoals(userId);
+  if (hasCompletionKeyword && isLLMReady("matching")) {
+    const activeGoals = await getActiveGoals(groupId, userId);
 
     if (activeGoals.length > 0) {
       const matches = await matchCompletions(content, activeGoals);
@@ -68,9 +191,9 @@ export const handleGoalMessage = async (message: Message, content: string) => {
 
       if (completedGoals.length > 0) {
         const response = await generateResponse("goal_completed", { completedGoals });
-        await message.react("🎉");
+        await queueReact(message, "🎉");
         if (response && completedGoals.length > 1) {
-          await message.reply(response);
+          await queueReply(message, response);
         }
       }
     }
@@ -1,8 +1,16 @@
 // Main message router
-import type { Message } from "whatsapp-web.js";
+import type { GroupChat, GroupNotification, Message, Reaction } from "whatsapp-web.js";
 
-import { BOT_CONFIG, adminChatId, targetGroupId } from "../config";
-import { botStatus } from "../state";
+import { BOT_CONFIG, adminChatId, targetGroupIds } from "../config";
+import { hasGroupState, getGroupState } from "../state";
+import { claimUnscopedGoals } from "../goalStore";
+import { claimUnscopedJobRuns, claimUnscopedSchedulerState } from "../jobTracker";
+import { saveGroup } from "../groupStore";
+import { isLeader } from "../leader";
+import { queueMessage } from "../outbox";
+import { claimUnscopedSprints } from "../sprintStore";
+import { messagesHandled } from "../metrics";
+import { recordMessageAuthor, syncMembers } from "../memberStore";
 import {
   handleStartCommand,
   handleStopCommand,
@@ -14,12 +22,83 @@ import {
   handleMonthlyCommand,
   handleGoalsCommand,
   handleMentorCommand,
+  handleGoalAddCommand,
+  handleGoalStatusCommand,
+  handleGoalEditCommand,
+  handleUndoCommand,
+  handleTrackingCommand,
+  handleForgetMeCommand,
+  handleMyDataCommand,
 } from "./commands";
-import { handleGoalMessage } from "./goals";
-import { handleStatsCommand, handleChatCommand, handleUsersCommand, handleIngestCommand } from "./admin";
+import { handleGoalMessage, handleLeftoverReply, handlePendingGoalReply, handleGoalReaction } from "./goals";
+import {
+  handleStatsCommand,
+  handleChatCommand,
+  handleUsersCommand,
+  handleIngestCommand,
+  handleGroupsCommand,
+  handleScheduleCommand,
+  handleTemplateCommand,
+  handleTimezoneCommand,
+  handleCatchUpReaction,
+  handleJobsCommand,
+  handleExportCommand,
+  handleImportCommand,
+  handleMemberCommand,
+} from "./admin";
+
+// Groups whose claim of pre-multi-group records failed and the admin has been told about
+const claimFailuresReported = new Set<string>();
+
+// Register a group the first time it talks to the bot. The group only counts as registered
+// once everything here succeeds, so a failure is retried on its next message.
+const registerGroup = async (groupId: string, groupName: string, participantIds: string[]) => {
+  await saveGroup(groupId, groupName);
+  await syncMembers(groupId, participantIds);
+
+  // Records from before multi-group support belong to the primary group
+  if (targetGroupIds.length === 0 || targetGroupIds[0] === groupId) {
+    try {
+      await claimUnscopedSprints(groupId);
+      const goals = await claimUnscopedGoals(groupId);
+      const runs = await claimUnscopedJobRuns(groupId);
+      await claimUnscopedSchedulerState(groupId);
+      if (goals > 0 || runs > 0) {
+        console.log(`Assigned ${goals} goal(s) and ${runs} job run(s) from before multi-group support to ${groupName}`);
+      }
+    } catch (error) {
+      console.error(`Failed to assign records from before multi-group support to ${groupName}:`, error);
+      if (adminChatId && !claimFailuresReported.has(groupId)) {
+        claimFailuresReported.add(groupId);
+        await queueMessage(
+          adminChatId,
+          `⚠️ Couldn't move goals and sprints from before multi-group support into ${groupName || groupId}: ${error}\n\n` +
+            `_I'll try again on the group's next message._`
+        );
+      }
+      throw error;
+    }
+  }
+
+  getGroupState(groupId, groupName);
+  console.log(`Registered group: ${groupName} (${groupId})`);
+};
+
+// Metric label for a message: the bot command it invokes (e.g. "goal add"), "unknown"
+// for an unrecognised command, or "message" for ordinary chat
+const commandLabel = (content: string): string => {
+  const command = Object.entries(BOT_CONFIG)
+    .filter(([name]) => name !== "COMMAND_PREFIX")
+    .map(([, value]) => value)
+    .filter((value) => content === value || content.startsWith(`${value} `))
+    .sort((a, b) => b.length - a.length)[0];
+  if (command) return command.slice(BOT_CONFIG.COMMAND_PREFIX.length).trim();
+  return content.startsWith(BOT_CONFIG.COMMAND_PREFIX) ? "unknown" : "message";
+};
 
 export const handleMessage = async (message: Message) => {
-  if (message.fromMe) return;
+  // A standby instance leaves messages to the leader so nothing is handled twice
+  if (message.fromMe || !isLeader()) return;
 
   try {
     const chat = await message.getChat();
@@ -32,25 +111,33 @@ export const handleMessage = async (message: Message) => {
       console.log(`[DEBUG] DM from: ${message.from}`);
     }
 
-    // Only respond to DMs from admin
+    // Members only DM the bot to answer leftover goal prompts; everything else in DMs is admin-only
     if (isDirectMessage && adminChatId && message.from !== adminChatId) {
+      if (!content.startsWith(BOT_CONFIG.COMMAND_PREFIX)) await handleLeftoverReply(message, content);
       return;
     }
 
     if (isGroupMessage) {
-      // If TARGET_GROUP_ID is set in env, only respond to that group
-      if (targetGroupId && message.from !== targetGroupId) {
+      // If TARGET_GROUP_IDS is set in env, only respond to those groups
+      if (targetGroupIds.length > 0 && !targetGroupIds.includes(message.from)) {
         return;
       }
 
-      // Auto-set target group if not configured
-      if (!BOT_CONFIG.TARGET_GROUP_ID) {
-        BOT_CONFIG.TARGET_GROUP_ID = targetGroupId || message.from;
-        botStatus.targetGroup = BOT_CONFIG.TARGET_GROUP_ID;
-        botStatus.targetGroupName = chat.name;
-        console.log(`Set target group to: ${chat.name} (${BOT_CONFIG.TARGET_GROUP_ID})`);
+      if (!hasGroupState(message.from)) {
+        await registerGroup(
+          message.from,
+          chat.name,
+          (chat as GroupChat).participants?.map((p) => p.id._serialized) ?? []
+        );
+      } else {
+        getGroupState(message.from, chat.name);
       }
 
+      // Keep the author's name current, and follow them if they now message from a new ID
+      await recordMessageAuthor(message.from, message.author || message.from);
+
+      messagesHandled.inc({ command: commandLabel(content), chat: "group" });
+
       // Route commands
       if (content === BOT_CONFIG.START_COMMAND) {
         await handleStartCommand(chat);
@@ -72,27 +159,88 @@ export const handleMessage = async (message: Message) => {
         await handleGoalsCommand(chat, message);
       } else if (content === BOT_CONFIG.MENTOR_COMMAND) {
         await handleMentorCommand(chat, message);
+      } else if (content.startsWith(BOT_CONFIG.GOAL_ADD_COMMAND)) {
+        await handleGoalAddCommand(chat, message, content);
+      } else if (content.startsWith(BOT_CONFIG.DONE_COMMAND)) {
+        await handleGoalStatusCommand(chat, message, content, "done");
+      } else if (content.startsWith(BOT_CONFIG.DROP_COMMAND)) {
+        await handleGoalStatusCommand(chat, message, content, "drop");
+      } else if (content.startsWith(BOT_CONFIG.EDIT_COMMAND)) {
+        await handleGoalEditCommand(chat, message, content);
+      } else if (content === BOT_CONFIG.UNDO_COMMAND) {
+        await handleUndoCommand(chat, message);
+      } else if (content === BOT_CONFIG.OPTOUT_COMMAND) {
+        await handleTrackingCommand(chat, message, false);
+      } else if (content === BOT_CONFIG.OPTIN_COMMAND) {
+        await handleTrackingCommand(chat, message, true);
+      } else if (content.startsWith(BOT_CONFIG.FORGET_COMMAND)) {
+        await handleForgetMeCommand(chat, message, content);
+      } else if (content === BOT_CONFIG.MYDATA_COMMAND) {
+        await handleMyDataCommand(chat, message);
       } else if (!content.startsWith(BOT_CONFIG.COMMAND_PREFIX)) {
-        // Non-command message - check for goal-related content
-        await handleGoalMessage(message, content);
+        // Non-command message - answers to goal confirmation prompts, then goal-related content
+        if (!(await handlePendingGoalReply(message, content))) {
+          await handleGoalMessage(message, content);
+        }
       }
     } else if (isDirectMessage) {
+      messagesHandled.inc({ command: commandLabel(content), chat: "admin" });
+
       // Admin DM commands
       if (content === BOT_CONFIG.STATUS_COMMAND) {
         await handleStatusCommand(chat);
       } else if (content === BOT_CONFIG.HELP_COMMAND) {
         await handleHelpCommand(chat, true);
-      } else if (content === BOT_CONFIG.STATS_COMMAND) {
-        await handleStatsCommand(chat);
-      } else if (content === BOT_CONFIG.USERS_COMMAND) {
-        await handleUsersCommand(chat);
+      } else if (content.startsWith(BOT_CONFIG.STATS_COMMAND)) {
+        await handleStatsCommand(chat, content);
+      } else if (content.startsWith(BOT_CONFIG.USERS_COMMAND)) {
+        await handleUsersCommand(chat, content);
+      } else if (content.startsWith(BOT_CONFIG.MEMBER_COMMAND)) {
+        await handleMemberCommand(chat, content);
+      } else if (content === BOT_CONFIG.GROUPS_COMMAND) {
+        await handleGroupsCommand(chat);
+      } else if (content.startsWith(BOT_CONFIG.SCHEDULE_COMMAND)) {
+        await handleScheduleCommand(chat, content);
+      } else if (content.startsWith(BOT_CONFIG.TEMPLATE_COMMAND)) {
+        await handleTemplateCommand(chat, content);
+      } else if (content.startsWith(BOT_CONFIG.TIMEZONE_COMMAND)) {
+        await handleTimezoneCommand(chat, content);
+      } else if (content.startsWith(BOT_CONFIG.JOBS_COMMAND)) {
+        await handleJobsCommand(chat, content);
+      } else if (content.startsWith(BOT_CONFIG.EXPORT_COMMAND)) {
+        await handleExportCommand(chat, content);
+      } else if (content.startsWith(BOT_CONFIG.IMPORT_COMMAND)) {
+        await handleImportCommand(chat, message, content);
       } else if (content.startsWith(BOT_CONFIG.INGEST_COMMAND)) {
         await handleIngestCommand(chat, content);
       } else if (content.startsWith(BOT_CONFIG.CHAT_COMMAND)) {
         await handleChatCommand(chat, content);
+      } else if (!content.startsWith(BOT_CONFIG.COMMAND_PREFIX)) {
+        // The admin gets leftover goal prompts too when they're a member
+        await handleLeftoverReply(message, content);
       }
     }
   } catch (error) {
     console.error("Error handling message:", error);
   }
 };
+
+// Reactions answer goal confirmation prompts in groups and catch-up prompts in the admin DM
+export const handleReaction = async (reaction: Reaction) => {
+  if (reaction.id.fromMe || !isLeader()) return;
+  if (reaction.msgId.remote.endsWith("@g.us")) {
+    await handleGoalReaction(reaction);
+  } else if (adminChatId && reaction.msgId.remote === adminChatId) {
+    await handleCatchUpReaction(reaction);
+  }
+};
+
+// Record people joining a served group, so their join date is known before they post
+export const handleGroupJoin = async (notification: GroupNotification) => {
+  if (!isLeader() || !hasGroupState(notification.chatId)) return;
+  try {
+    await syncMembers(notification.chatId, notification.recipientIds);
+  } catch (error) {
+    console.error("Error recording new members:", error);
+  }
+};
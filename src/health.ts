@@ -1,5 +1,9 @@
-// Health check HTTP server
+// Health check HTTP server - also serves /metrics, the REST API and the admin dashboard
 import { createServer } from "http";
+import { isLeader } from "./leader";
+import { renderMetrics } from "./metrics";
+import { handleApiRequest } from "./api";
+import { handleDashboardRequest } from "./dashboard";
 
 let isClientReady = false;
 
@@ -14,7 +18,22 @@ export const startHealthServer = (port = 3000) => {
     if (req.url === "/health" || req.url === "/") {
       const status = isClientReady ? 200 : 503;
       res.writeHead(status, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ status: isClientReady ? "ok" : "starting", ready: isClientReady }));
+      res.end(
+        JSON.stringify({
+          status: isClientReady ? "ok" : "starting",
+          ready: isClientReady,
+          role: isLeader() ? "leader" : "standby",
+        })
+      );
+    } else if (req.url === "/metrics") {
+      renderMetrics().then((body) => {
+        res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+        res.end(body);
+      });
+    } else if (req.url?.startsWith("/api/")) {
+      handleApiRequest(req, res);
+    } else if (req.url === "/admin" || req.url?.startsWith("/admin/") || req.url?.startsWith("/admin?")) {
+      handleDashboardRequest(req, res);
     } else {
       res.writeHead(404);
       res.end();
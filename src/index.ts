@@ -4,14 +4,21 @@ const qrcode = require("qrcode-terminal");
 import { db } from "./db";
 import { startHealthServer, setClientReady } from "./health";
 import { client, cleanStaleLockfiles } from "./client";
-import { setBotStartTime, setSchedulerActive, botStatus } from "./state";
+import { setBotStartTime, setSchedulerActive, getAllGroupStates } from "./state";
 import { loadGoals } from "./goalStore";
+import { startPendingGoalSweep } from "./goalConfirmation";
+import { startOutboxWorker, stopOutboxWorker, queueMessage } from "./outbox";
+import { runAsLeader, releaseLeadership } from "./leader";
 import { initLLM } from "./llm";
-import { handleMessage } from "./handlers";
-import { checkMissedJobs } from "./scheduler";
+import { handleGroupJoin, handleMessage, handleReaction } from "./handlers";
+import { checkMissedJobs, restoreSchedulers, suspendSchedulers } from "./scheduler";
+import { getStoredGroups } from "./groupStore";
+import { whatsappConnected, whatsappReconnects } from "./metrics";
 
 // Guard against duplicate ready events
 let hasInitialized = false;
+// Whether the client has been ready before (so a later ready event is a reconnect)
+let hasConnected = false;
 
 // Global error handlers to catch crashes
 process.on("uncaughtException", (err) => {
@@ -21,6 +28,15 @@ process.on("unhandledRejection", (reason, promise) => {
   console.error("UNHANDLED REJECTION at:", promise, "reason:", reason);
 });
 
+// Hand leadership to a standby straight away on shutdown (e.g. a rolling deploy)
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+  process.on(signal, async () => {
+    console.log(`${signal} received, shutting down`);
+    await releaseLeadership().catch((err) => console.error("[Leader] Failed to release lease:", err));
+    process.exit(0);
+  });
+}
+
 // Start health check server
 startHealthServer(3000);
 
@@ -53,13 +69,16 @@ client.on("ready", async () => {
   hasInitialized = true;
   console.log("Client ready");
   setClientReady(true);
+  whatsappConnected.set(1);
+  if (hasConnected) whatsappReconnects.inc();
+  hasConnected = true;
   setBotStartTime(new Date());
 
-  // Send admin notification if configured - with retry
+  // Send admin notification if configured - the outbox retries it
   const adminChatId = process.env.ADMIN_CHAT_ID;
   if (adminChatId) {
     console.log(`[Admin] Chat ID configured: ${adminChatId}`);
-    const sendAdminNotification = async (attempt = 1) => {
+    const sendAdminNotification = async () => {
       try {
         // Check if chat ID is registered on WhatsApp
         const numberId = await client.getNumberId(adminChatId.replace("@c.us", ""));
@@ -69,14 +88,10 @@ client.on("ready", async () => {
         }
         console.log(`[Admin] Number verified: ${numberId._serialized}`);
 
-        const result = await client.sendMessage(adminChatId, "✅ *Bot Online*\n\nKoruClub is now connected and ready.");
-        console.log(`[Admin] Notification sent, message ID: ${result?.id?._serialized || "unknown"}`);
+        await queueMessage(adminChatId, "✅ *Bot Online*\n\nKoruClub is now connected and ready.");
+        console.log("[Admin] Notification queued");
       } catch (err) {
-        console.error(`[Admin] Failed to send notification (attempt ${attempt}):`, err);
-        if (attempt < 3) {
-          console.log(`[Admin] Retrying in 10s...`);
-          setTimeout(() => sendAdminNotification(attempt + 1), 10000);
-        }
+        console.error("[Admin] Failed to queue notification:", err);
       }
     };
     // Wait 30s for WhatsApp to fully stabilize before first attempt
@@ -87,9 +102,29 @@ client.on("ready", async () => {
 
   // Initialize goal tracking
   await loadGoals();
+  startPendingGoalSweep();
+
+  // Only the leader instance posts - a standby takes over if the leader's lease goes stale
+  await runAsLeader(
+    async () => {
+      // Deliver queued messages (including any left over from before a restart)
+      await startOutboxWorker();
+
+      // Check for missed jobs during downtime, for every group whose scheduler was running -
+      // a stopped group posts nothing, so there's nothing to miss
+      // (must run before schedulers restart, as that refreshes the heartbeat)
+      for (const group of await getStoredGroups()) {
+        if (group.schedulerActive) await checkMissedJobs(group.id);
+      }
 
-  // Check for missed jobs during downtime
-  await checkMissedJobs();
+      // Bring back schedulers that were running before the restart
+      await restoreSchedulers();
+    },
+    () => {
+      stopOutboxWorker();
+      suspendSchedulers();
+    }
+  );
 
   // Initialize LLM (non-blocking)
   initLLM().then((ready) => {
@@ -105,11 +140,13 @@ client.on("disconnected", (reason: string) => {
   console.log("Client disconnected:", reason);
   hasInitialized = false; // Allow re-initialization on reconnect
   setClientReady(false);
-  setSchedulerActive(false);
-  botStatus.isActive = false;
+  whatsappConnected.set(0);
+  getAllGroupStates().forEach((state) => setSchedulerActive(state.groupId, false));
 });
 
 client.on("message_create", handleMessage);
+client.on("message_reaction", handleReaction);
+client.on("group_join", handleGroupJoin);
 
 // ============================================
 // Main Startup
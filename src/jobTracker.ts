@@ -1,11 +1,13 @@
 // Track scheduled job executions in database
 import { db } from "./db";
+import type { Page } from "./db";
 import type { JobType } from "./dateCalculator";
 import { getMostRecentScheduledDate, getJobLabel } from "./dateCalculator";
-import { getNZDate } from "./utils";
+import { now } from "./clock";
 
 export interface JobRun {
   id: string;
+  groupId: string;
   jobType: string;
   scheduledFor: Date;
   status: string;
@@ -13,17 +15,25 @@ export interface JobRun {
   skippedReason: string | null;
   messageId: string | null;
   error: string | null;
+  catchUpAction: string | null;
 }
 
-export async function recordJobFired(jobType: JobType, scheduledFor: Date): Promise<string> {
+export const RUN_STATUSES = ["pending", "completed", "skipped", "failed", "missed", "manual", "dismissed"];
+
+// How a missed run was handled: posted automatically, put to the admin (then confirmed
+// or declined), or skipped by the job's catch-up policy
+export type CatchUpAction = "auto" | "asked" | "confirmed" | "declined" | "skipped";
+
+export async function recordJobFired(groupId: string, jobType: JobType, scheduledFor: Date): Promise<string> {
   const run = await db.scheduledJobRun.create({
     data: {
+      groupId,
       jobType,
       scheduledFor,
       status: "pending",
     },
   });
-  console.log(`[JobTracker] Job fired: ${jobType} scheduled for ${scheduledFor.toISOString()}`);
+  console.log(`[JobTracker] Job fired: ${jobType} (${groupId}) scheduled for ${scheduledFor.toISOString()}`);
   return run.id;
 }
 
@@ -33,7 +43,7 @@ export async function recordJobSkipped(runId: string, reason: string): Promise<v
     data: {
       status: "skipped",
       skippedReason: reason,
-      executedAt: new Date(),
+      executedAt: now(),
     },
   });
   console.log(`[JobTracker] Job skipped: ${runId} - ${reason}`);
@@ -44,7 +54,7 @@ export async function recordJobCompleted(runId: string, messageId?: string): Pro
     where: { id: runId },
     data: {
       status: "completed",
-      executedAt: new Date(),
+      executedAt: now(),
       messageId: messageId || null,
     },
   });
@@ -56,19 +66,25 @@ export async function recordJobFailed(runId: string, error: string): Promise<voi
     where: { id: runId },
     data: {
       status: "failed",
-      executedAt: new Date(),
+      executedAt: now(),
       error,
     },
   });
   console.log(`[JobTracker] Job failed: ${runId} - ${error}`);
 }
 
-export async function recordManualTrigger(jobType: JobType, messageId?: string): Promise<boolean> {
-  const now = getNZDate();
+// Record a post triggered by hand. Returns its run, and whether that resolved a missed run
+// rather than recording a fresh one.
+export async function recordManualTrigger(
+  groupId: string,
+  jobType: JobType
+): Promise<{ runId: string; resolvedMissed: boolean }> {
+  const triggeredAt = now();
   
   // Check if there's a missed job of this type that we can resolve
   const missedJob = await db.scheduledJobRun.findFirst({
     where: {
+      groupId,
       jobType,
       status: "missed",
     },
@@ -83,31 +99,164 @@ export async function recordManualTrigger(jobType: JobType, messageId?: string):
       where: { id: missedJob.id },
       data: {
         status: "manual",
-        executedAt: new Date(),
-        messageId: messageId || null,
+        executedAt: now(),
       },
     });
     console.log(`[JobTracker] Missed ${getJobLabel(jobType)} (${missedJob.scheduledFor.toISOString()}) resolved via manual trigger`);
-    return true; // A missed job was resolved
+    return { runId: missedJob.id, resolvedMissed: true };
   } else {
     // Record as a fresh manual trigger
-    await db.scheduledJobRun.create({
+    const run = await db.scheduledJobRun.create({
       data: {
+        groupId,
         jobType,
-        scheduledFor: now,
+        scheduledFor: triggeredAt,
         status: "manual",
-        executedAt: new Date(),
-        messageId: messageId || null,
+        executedAt: now(),
       },
     });
-    console.log(`[JobTracker] Manual trigger recorded: ${jobType}`);
-    return false; // No missed job was resolved
+    console.log(`[JobTracker] Manual trigger recorded: ${jobType} (${groupId})`);
+    return { runId: run.id, resolvedMissed: false };
+  }
+}
+
+// Record the message a run posted, once the outbox has delivered it
+export async function recordJobMessage(runId: string, messageId: string): Promise<void> {
+  await db.scheduledJobRun.update({
+    where: { id: runId },
+    data: { messageId },
+  });
+}
+
+// A run that's being posted late goes back to pending, so a manual trigger before the post
+// is delivered records its own run rather than taking this one over
+export async function recordCatchUpAction(runId: string, action: CatchUpAction): Promise<void> {
+  const posting = action === "auto" || action === "confirmed";
+  await db.scheduledJobRun.update({
+    where: { id: runId },
+    data: {
+      catchUpAction: action,
+      ...(posting && { status: "pending" }),
+    },
+  });
+  console.log(`[JobTracker] Catch-up ${action}: ${runId}`);
+}
+
+// Record the admin DM asking about a missed run, once it's delivered, so reactions to it can be matched
+export async function recordCatchUpPrompt(runId: string, promptMessageId: string): Promise<void> {
+  await db.scheduledJobRun.update({
+    where: { id: runId },
+    data: { catchUpPrompt: promptMessageId },
+  });
+}
+
+// The missed run an admin DM prompt asked about, while it's still unanswered
+export async function getRunAwaitingCatchUp(promptMessageId: string): Promise<JobRun | null> {
+  return db.scheduledJobRun.findFirst({
+    where: {
+      catchUpPrompt: promptMessageId,
+      catchUpAction: "asked",
+      status: "missed",
+    },
+  });
+}
+
+// Put a failed run back to pending before an admin retry
+export async function recordJobRetry(runId: string): Promise<void> {
+  await db.scheduledJobRun.update({
+    where: { id: runId },
+    data: {
+      status: "pending",
+      executedAt: null,
+      error: null,
+    },
+  });
+  console.log(`[JobTracker] Job retry: ${runId}`);
+}
+
+// An admin decided a missed run doesn't need posting
+export async function recordJobDismissed(runId: string): Promise<void> {
+  await db.scheduledJobRun.update({
+    where: { id: runId },
+    data: {
+      status: "dismissed",
+      executedAt: now(),
+    },
+  });
+  console.log(`[JobTracker] Missed job dismissed: ${runId}`);
+}
+
+// Most recent runs of a group, newest first
+export async function getRecentRuns(groupId: string, limit: number, jobType?: JobType): Promise<JobRun[]> {
+  return db.scheduledJobRun.findMany({
+    where: { groupId, ...(jobType ? { jobType } : {}) },
+    orderBy: { scheduledFor: "desc" },
+    take: limit,
+  });
+}
+
+export interface RunFilter {
+  groupId?: string;
+  jobType?: JobType;
+  status?: string;
+  // Window on scheduledFor
+  from?: Date;
+  to?: Date;
+}
+
+// Runs matching a filter, newest first
+export async function listRuns(filter: RunFilter, page: Page): Promise<{ runs: JobRun[]; total: number }> {
+  const where = {
+    ...(filter.groupId ? { groupId: filter.groupId } : {}),
+    ...(filter.jobType ? { jobType: filter.jobType } : {}),
+    ...(filter.status ? { status: filter.status } : {}),
+    ...(filter.from || filter.to
+      ? { scheduledFor: { ...(filter.from ? { gte: filter.from } : {}), ...(filter.to ? { lt: filter.to } : {}) } }
+      : {}),
+  };
+  const [runs, total] = await Promise.all([
+    db.scheduledJobRun.findMany({ where, orderBy: [{ scheduledFor: "desc" }, { id: "asc" }], ...page }),
+    db.scheduledJobRun.count({ where }),
+  ]);
+  return { runs, total };
+}
+
+// Find a run from the short reference shown in job listings (the end of its ID)
+export async function findRunByRef(groupId: string, ref: string): Promise<JobRun | null> {
+  return db.scheduledJobRun.findFirst({
+    where: { groupId, id: { endsWith: ref } },
+  });
+}
+
+// Number of runs per job type and status
+export async function getRunCounts(groupId: string): Promise<Record<string, Record<string, number>>> {
+  const groups = await db.scheduledJobRun.groupBy({
+    by: ["jobType", "status"],
+    where: { groupId },
+    _count: { _all: true },
+  });
+  const counts: Record<string, Record<string, number>> = {};
+  for (const group of groups) {
+    counts[group.jobType] = { ...counts[group.jobType], [group.status]: group._count._all };
   }
+  return counts;
 }
 
-export async function getLastSuccessfulRun(jobType: JobType): Promise<JobRun | null> {
+// Number of runs per group, job type and status across every group (for metrics)
+export async function getRunStatusCounts(): Promise<
+  { groupId: string; jobType: string; status: string; count: number }[]
+> {
+  const groups = await db.scheduledJobRun.groupBy({
+    by: ["groupId", "jobType", "status"],
+    _count: { _all: true },
+  });
+  return groups.map((g) => ({ groupId: g.groupId, jobType: g.jobType, status: g.status, count: g._count._all }));
+}
+
+export async function getLastSuccessfulRun(groupId: string, jobType: JobType): Promise<JobRun | null> {
   const run = await db.scheduledJobRun.findFirst({
     where: {
+      groupId,
       jobType,
       status: { in: ["completed", "manual"] },
     },
@@ -118,9 +267,10 @@ export async function getLastSuccessfulRun(jobType: JobType): Promise<JobRun | n
   return run;
 }
 
-export async function getMissedJobs(): Promise<JobRun[]> {
+export async function getMissedJobs(groupId: string): Promise<JobRun[]> {
   const runs = await db.scheduledJobRun.findMany({
     where: {
+      groupId,
       status: "missed",
     },
     orderBy: {
@@ -130,30 +280,39 @@ export async function getMissedJobs(): Promise<JobRun[]> {
   return runs;
 }
 
-export async function updateHeartbeat(): Promise<void> {
-  const now = new Date();
+export async function updateHeartbeat(groupId: string): Promise<void> {
+  const beat = now();
   await db.schedulerState.upsert({
-    where: { id: "singleton" },
-    update: { lastHeartbeat: now },
+    where: { groupId },
+    update: { lastHeartbeat: beat },
     create: {
-      id: "singleton",
-      lastHeartbeat: now,
-      schedulerStarted: now,
+      groupId,
+      lastHeartbeat: beat,
+      schedulerStarted: beat,
     },
   });
 }
 
-export async function getSchedulerState(): Promise<{ lastHeartbeat: Date; schedulerStarted: Date } | null> {
+export async function getSchedulerState(
+  groupId: string
+): Promise<{ lastHeartbeat: Date; schedulerStarted: Date } | null> {
   const state = await db.schedulerState.findUnique({
-    where: { id: "singleton" },
+    where: { groupId },
   });
   return state;
 }
 
-export async function recordMissedJob(jobType: JobType, scheduledFor: Date): Promise<void> {
+export async function getSchedulerStates(): Promise<{ groupId: string; lastHeartbeat: Date }[]> {
+  return db.schedulerState.findMany({
+    select: { groupId: true, lastHeartbeat: true },
+  });
+}
+
+export async function recordMissedJob(groupId: string, jobType: JobType, scheduledFor: Date): Promise<void> {
   // Check if we already recorded this missed job
   const existing = await db.scheduledJobRun.findFirst({
     where: {
+      groupId,
       jobType,
       scheduledFor,
     },
@@ -162,11 +321,35 @@ export async function recordMissedJob(jobType: JobType, scheduledFor: Date): Pro
   if (!existing) {
     await db.scheduledJobRun.create({
       data: {
+        groupId,
         jobType,
         scheduledFor,
         status: "missed",
       },
     });
-    console.log(`[JobTracker] Recorded missed job: ${getJobLabel(jobType)} scheduled for ${scheduledFor.toISOString()}`);
+    console.log(`[JobTracker] Recorded missed job: ${getJobLabel(jobType)} (${groupId}) scheduled for ${scheduledFor.toISOString()}`);
+  }
+}
+
+// Assign job runs recorded before multi-group support to a group
+export async function claimUnscopedJobRuns(groupId: string): Promise<number> {
+  const result = await db.scheduledJobRun.updateMany({
+    where: { groupId: "" },
+    data: { groupId },
+  });
+  return result.count;
+}
+
+// Assign the heartbeat recorded before multi-group support to a group, unless it has its own
+export async function claimUnscopedSchedulerState(groupId: string): Promise<boolean> {
+  const legacy = await db.schedulerState.findUnique({ where: { groupId: "" } });
+  if (!legacy) return false;
+
+  const existing = await db.schedulerState.findUnique({ where: { groupId } });
+  if (existing) {
+    await db.schedulerState.delete({ where: { groupId: "" } });
+    return false;
   }
+  await db.schedulerState.update({ where: { groupId: "" }, data: { groupId } });
+  return true;
 }
@@ -0,0 +1,115 @@
+// Leader election through a lease row - only the instance holding the lease runs
+// schedules and the outbox, so two containers (e.g. during a rolling deploy) never
+// double-post. A standby takes over once the leader stops renewing its lease.
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { db } from "./db";
+
+const LEASE_NAME = "scheduler";
+const LEASE_SECONDS = 60;
+const RENEW_INTERVAL_MS = 15 * 1000;
+
+export const instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+interface LeaderCallbacks {
+  onElected: () => Promise<void>;
+  onDemoted: () => void;
+}
+
+let leader = false;
+let lastRenewal = 0;
+let callbacks: LeaderCallbacks | null = null;
+let renewInterval: NodeJS.Timeout | null = null;
+
+export const isLeader = () => leader;
+
+// Take the lease if it's free or expired, or extend it if we already hold it.
+// Expiry uses the database clock so instances with skewed clocks agree.
+const claimLease = async (): Promise<boolean> => {
+  const claimed = await db.$executeRaw`
+    INSERT INTO "leader_leases" ("name", "holder_id", "acquired_at", "expires_at")
+    VALUES (${LEASE_NAME}, ${instanceId}, NOW(), NOW() + make_interval(secs => ${LEASE_SECONDS}))
+    ON CONFLICT ("name") DO UPDATE SET
+      "holder_id" = EXCLUDED."holder_id",
+      "acquired_at" = CASE
+        WHEN "leader_leases"."holder_id" = EXCLUDED."holder_id" THEN "leader_leases"."acquired_at"
+        ELSE NOW()
+      END,
+      "expires_at" = EXCLUDED."expires_at"
+    WHERE "leader_leases"."holder_id" = EXCLUDED."holder_id" OR "leader_leases"."expires_at" < NOW()`;
+  return claimed === 1;
+};
+
+const becomeLeader = async () => {
+  leader = true;
+  console.log(`[Leader] ${instanceId} is now the leader`);
+  try {
+    await callbacks?.onElected();
+  } catch (error) {
+    console.error("[Leader] Failed to start leader duties:", error);
+  }
+};
+
+const stepDown = (reason: string) => {
+  leader = false;
+  console.warn(`[Leader] ${instanceId} stepped down: ${reason}`);
+  callbacks?.onDemoted();
+};
+
+// Past half the lease without a renewal, a standby may be about to take over
+const renewalOverdue = () => Date.now() - lastRenewal > (LEASE_SECONDS * 1000) / 2;
+
+const renew = async () => {
+  // Checked before each attempt too, so a renewal query that hangs doesn't keep us leader
+  if (leader && renewalOverdue()) {
+    stepDown("lease could not be renewed in time");
+  }
+  try {
+    const held = await claimLease();
+    if (held) {
+      lastRenewal = Date.now();
+      if (!leader) await becomeLeader();
+    } else if (leader) {
+      stepDown("another instance holds the lease");
+    }
+  } catch (error) {
+    console.error("[Leader] Lease renewal failed:", error);
+    // Without the database we can't tell whether a standby took over - stop before our lease runs out
+    if (leader && renewalOverdue()) {
+      stepDown("lease could not be renewed");
+    }
+  }
+};
+
+/**
+ * Run leader duties on this instance while it holds the lease. onElected runs on every
+ * election, and again straight away if we're already leader (e.g. after a WhatsApp reconnect).
+ */
+export const runAsLeader = async (onElected: () => Promise<void>, onDemoted: () => void) => {
+  callbacks = { onElected, onDemoted };
+
+  if (renewInterval) {
+    if (leader) await onElected();
+    return;
+  }
+
+  renewInterval = setInterval(renew, RENEW_INTERVAL_MS);
+  await renew();
+  if (!leader) {
+    console.log(`[Leader] ${instanceId} is on standby`);
+  }
+};
+
+// Give up the lease so a standby can take over without waiting for it to expire
+export const releaseLeadership = async () => {
+  if (renewInterval) {
+    clearInterval(renewInterval);
+    renewInterval = null;
+  }
+  if (!leader) return;
+
+  leader = false;
+  callbacks?.onDemoted();
+  await db.leaderLease.deleteMany({ where: { name: LEASE_NAME, holderId: instanceId } });
+  console.log(`[Leader] ${instanceId} released the lease`);
+};
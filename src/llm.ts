@@ -1,34 +1,12 @@
-import { Ollama } from "ollama";
 import type { Goal } from "./goalStore";
 import { getDBSummaryForLLM } from "./goalStore";
+import type { GenerateOptions, JSONSchema, LLMTask } from "./providers";
+import type { SprintDigest } from "./sprintDigest";
+import { LLM_TASKS, getProvider, initProviders, isProviderReady, validateSchema } from "./providers";
+import { llmDuration, llmFailures } from "./metrics";
 
-const OLLAMA_HOST = process.env.OLLAMA_HOST || "http://localhost:11434";
-const MODEL = process.env.OLLAMA_MODEL || "qwen2:0.5b";
-
-const ollama = new Ollama({ host: OLLAMA_HOST });
-
-let modelReady = false;
-
-// Check if Ollama is available and model is pulled
-export const initLLM = async (): Promise<boolean> => {
-  try {
-    const models = await ollama.list();
-    const hasModel = models.models.some((m: { name: string }) => m.name.startsWith(MODEL.split(":")[0]));
-
-    if (!hasModel) {
-      console.log(`Model ${MODEL} not found, pulling...`);
-      await ollama.pull({ model: MODEL });
-    }
-
-    modelReady = true;
-    console.log(`LLM ready: ${MODEL}`);
-    return true;
-  } catch (error) {
-    console.error("Failed to initialize LLM:", error);
-    modelReady = false;
-    return false;
-  }
-};
+// Check every configured provider is reachable and its model is available
+export const initLLM = async (): Promise<boolean> => initProviders();
 
 // Fallback regex-based goal extraction when LLM fails
 const extractGoalsFallback = (message: string): string[] => {
@@ -72,63 +50,133 @@ const isPromptExampleResponse = (goals: string[]): boolean => {
   return matchCount >= 2;
 };
 
+// ============================================
+// STRUCTURED OUTPUT - schema-constrained JSON with retry-and-repair
+// ============================================
+
+const MAX_JSON_ATTEMPTS = 3;
+
+const GOALS_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    goals: { type: "array", items: { type: "string", minLength: 2, maxLength: 200 }, maxItems: 10 },
+  },
+  required: ["goals"],
+};
+
+const MATCHES_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    matches: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          goalId: { type: "string" },
+          confidence: { type: "string", enum: ["high", "medium", "low"] },
+        },
+        required: ["goalId", "confidence"],
+      },
+    },
+  },
+  required: ["matches"],
+};
+
+// Record how long an LLM request took, and count it if it throws
+const timed = async <T>(task: LLMTask, call: () => Promise<T>): Promise<T> => {
+  const stop = llmDuration.startTimer({ task });
+  try {
+    return await call();
+  } catch (error) {
+    llmFailures.inc({ task, reason: "error" });
+    throw error;
+  } finally {
+    stop();
+  }
+};
+
+/**
+ * Generate JSON for a task and validate it against the schema (plus any extra checks).
+ * Rejected responses are logged and the model is asked to repair its answer; returns
+ * null once the attempts run out.
+ */
+const generateValidatedJSON = async <T>(
+  task: LLMTask,
+  prompt: string,
+  schema: JSONSchema,
+  options: GenerateOptions,
+  check?: (value: T) => string[]
+): Promise<T | null> => {
+  const provider = getProvider(task);
+  let attemptPrompt = prompt;
+
+  for (let attempt = 1; attempt <= MAX_JSON_ATTEMPTS; attempt++) {
+    const { raw, value } = await timed(task, () => provider.generateJSON<T>(attemptPrompt, schema, options));
+    let errors = value === null ? ["response is not valid JSON"] : validateSchema(value, schema);
+    // Extra checks assume the shape is right
+    if (errors.length === 0 && check) errors = check(value as T);
+
+    if (errors.length === 0) return value;
+
+    llmFailures.inc({ task, reason: "invalid" });
+    console.warn(
+      `[LLM] Rejected ${task} response from ${provider.name} (attempt ${attempt}/${MAX_JSON_ATTEMPTS}): ${errors.join("; ")}\n` +
+        `  Response: ${JSON.stringify(raw.slice(0, 500))}`
+    );
+
+    attemptPrompt =
+      `${prompt}\n\nYour previous response was rejected:\n${raw.slice(0, 500)}\n\n` +
+      `Problems: ${errors.join("; ")}\n\nRespond again with ONLY valid JSON that fixes these problems:`;
+  }
+
+  return null;
+};
+
 // Extract goals from a user's message
 export const extractGoals = async (message: string): Promise<string[]> => {
   // Try fallback first if message has clear goal markers
   const fallbackGoals = extractGoalsFallback(message);
   
-  if (!modelReady) {
+  if (!isProviderReady("extraction")) {
     console.warn("LLM not ready, using fallback goal extraction");
     return fallbackGoals;
   }
 
   try {
-    const response = await ollama.generate({
-      model: MODEL,
-      prompt: `Extract the goals or tasks from this message. Return ONLY a JSON array of strings, nothing else.
+    const result = await generateValidatedJSON<{ goals: string[] }>(
+      "extraction",
+      `Extract the goals or tasks from this message. Return ONLY a JSON object like {"goals": ["..."]}, nothing else.
 
 Message: "${message}"
 
 Examples:
-- "I want to finish the landing page and fix the auth bug" → ["finish the landing page", "fix the auth bug"]
-- "This sprint I'll focus on testing" → ["focus on testing"]
-- "My goals: 1) ship v2 2) write docs 3) review PRs" → ["ship v2", "write docs", "review PRs"]
-
-Return ONLY the JSON array:`,
-      stream: false,
-      options: {
-        temperature: 0.1,
-        num_predict: 200,
-      },
-    });
-
-    const text = response.response.trim();
-    const match = text.match(/\[[\s\S]*\]/);
-
-    if (match) {
-      const goals = JSON.parse(match[0]);
-      if (Array.isArray(goals)) {
-        const validGoals = goals.filter((g) => typeof g === "string" && g.length > 0);
-        
-        // Check if LLM just returned the prompt examples (hallucination)
-        if (isPromptExampleResponse(validGoals)) {
-          console.warn("[LLM] Detected prompt example hallucination, using fallback");
-          return fallbackGoals.length > 0 ? fallbackGoals : [];
-        }
-        
-        // If LLM found fewer goals than fallback, use fallback (LLM probably missed some)
-        if (validGoals.length > 0 && validGoals.length >= fallbackGoals.length) {
-          return validGoals;
-        } else if (fallbackGoals.length > 0) {
-          console.log(`[LLM] Using fallback extraction (${fallbackGoals.length} goals vs LLM's ${validGoals.length})`);
-          return fallbackGoals;
-        }
-        return validGoals;
-      }
+- "I want to finish the landing page and fix the auth bug" → {"goals": ["finish the landing page", "fix the auth bug"]}
+- "This sprint I'll focus on testing" → {"goals": ["focus on testing"]}
+- "My goals: 1) ship v2 2) write docs 3) review PRs" → {"goals": ["ship v2", "write docs", "review PRs"]}
+- "Anyone up for lunch?" → {"goals": []}
+
+Return ONLY the JSON object:`,
+      GOALS_SCHEMA,
+      { temperature: 0.1, maxTokens: 200 },
+      // Small models sometimes answer with the prompt examples instead of the message's goals
+      ({ goals }) => (isPromptExampleResponse(goals) ? ["response repeats the prompt examples instead of the message"] : [])
+    );
+
+    if (!result) {
+      console.warn(`[LLM] No valid extraction, using fallback (${fallbackGoals.length} goals)`);
+      return fallbackGoals;
     }
 
-    console.warn("Could not parse goals from LLM response:", text);
-    return fallbackGoals.length > 0 ? fallbackGoals : [];
+    const validGoals = result.goals.map((g) => g.trim()).filter((g) => g.length > 0);
+
+    // If LLM found fewer goals than fallback, use fallback (LLM probably missed some)
+    if (validGoals.length > 0 && validGoals.length >= fallbackGoals.length) {
+      return validGoals;
+    } else if (fallbackGoals.length > 0) {
+      console.log(`[LLM] Using fallback extraction (${fallbackGoals.length} goals vs LLM's ${validGoals.length})`);
+      return fallbackGoals;
+    }
+    return validGoals;
   } catch (error) {
     console.error("Error extracting goals:", error);
     return fallbackGoals.length > 0 ? fallbackGoals : [];
@@ -140,50 +188,40 @@ export const matchCompletions = async (
   message: string,
   activeGoals: Goal[]
 ): Promise<{ goalId: string; confidence: "high" | "medium" | "low" }[]> => {
-  if (!modelReady || activeGoals.length === 0) {
+  if (!isProviderReady("matching") || activeGoals.length === 0) {
     return [];
   }
 
   try {
     const goalsText = activeGoals.map((g, i) => `${i + 1}. [${g.id}] ${g.text}`).join("\n");
 
-    const response = await ollama.generate({
-      model: MODEL,
-      prompt: `A user posted an update. Match their message to completed goals from their list.
+    const result = await generateValidatedJSON<{
+      matches: { goalId: string; confidence: "high" | "medium" | "low" }[];
+    }>(
+      "matching",
+      `A user posted an update. Match their message to completed goals from their list.
 
 User's active goals:
 ${goalsText}
 
 User's message: "${message}"
 
-Return ONLY a JSON array of objects with goalId and confidence (high/medium/low).
+Return ONLY a JSON object with a "matches" array of objects with goalId and confidence (high/medium/low).
 Only include goals that the user has clearly completed or made significant progress on.
-If no goals match, return [].
+If no goals match, return {"matches": []}.
 
-Example response: [{"goalId": "user-1-123", "confidence": "high"}]
+Example response: {"matches": [{"goalId": "user-1-123", "confidence": "high"}]}
 
-Return ONLY the JSON array:`,
-      stream: false,
-      options: {
-        temperature: 0.1,
-        num_predict: 300,
-      },
-    });
-
-    const text = response.response.trim();
-    const match = text.match(/\[[\s\S]*\]/);
-
-    if (match) {
-      const matches = JSON.parse(match[0]);
-      if (Array.isArray(matches)) {
-        return matches.filter(
-          (m) =>
-            m.goalId && activeGoals.some((g) => g.id === m.goalId) && ["high", "medium", "low"].includes(m.confidence)
-        );
-      }
-    }
+Return ONLY the JSON object:`,
+      MATCHES_SCHEMA,
+      { temperature: 0.1, maxTokens: 300 },
+      ({ matches }) =>
+        matches
+          .filter((m) => !activeGoals.some((g) => g.id === m.goalId))
+          .map((m) => `goalId "${m.goalId}" is not one of the listed goals`)
+    );
 
-    return [];
+    return result?.matches ?? [];
   } catch (error) {
     console.error("Error matching completions:", error);
     return [];
@@ -221,7 +259,7 @@ export const generateResponse = async (
   data: { goals?: string[]; completedGoals?: string[]; userName?: string },
   originalMessage?: string
 ): Promise<string | null> => {
-  if (!modelReady) {
+  if (!isProviderReady("response")) {
     return null;
   }
 
@@ -240,19 +278,12 @@ export const generateResponse = async (
         break;
     }
 
-    const response = await ollama.generate({
-      model: MODEL,
-      prompt,
-      stream: false,
-      options: {
-        temperature: 0.7,
-        num_predict: 100,
-      },
-    });
-
-    const text = response.response.trim();
+    const text = await timed("response", () =>
+      getProvider("response").generate(prompt, { temperature: 0.7, maxTokens: 100 })
+    );
     
     if (!isValidResponse(text, originalMessage)) {
+      llmFailures.inc({ task: "response", reason: "invalid" });
       console.warn("[LLM] Invalid response, using fallback");
       return null;
     }
@@ -266,6 +297,7 @@ export const generateResponse = async (
 
 // Generate mentorship/coaching based on goal history
 export const generateMentorship = async (data: {
+  name?: string; // how the member is known in the group, if we know
   activeGoals: Goal[];
   history: {
     sprints: {
@@ -286,12 +318,12 @@ export const generateMentorship = async (data: {
     currentStreak: number;
   };
 }): Promise<string | null> => {
-  if (!modelReady) {
+  if (!isProviderReady("mentorship")) {
     return null;
   }
 
   try {
-    const { activeGoals, history, stats } = data;
+    const { name, activeGoals, history, stats } = data;
 
     const currentGoalsList =
       activeGoals.length > 0 ? activeGoals.map((g) => `- ${g.text}`).join("\n") : "No active goals set yet";
@@ -303,7 +335,7 @@ export const generateMentorship = async (data: {
 
     const prompt = `You are a supportive mentor helping someone track their personal/professional goals in 2-week sprints.
 
-Here's their data:
+${name ? `Their name is ${name} - address them by it.\n\n` : ""}Here's their data:
 
 CURRENT SPRINT GOALS:
 ${currentGoalsList}
@@ -330,30 +362,61 @@ Based on this, provide brief personalized mentorship (3-5 sentences max). Consid
 
 Be concise and genuine, not generic motivational fluff.`;
 
-    const response = await ollama.generate({
-      model: MODEL,
-      prompt,
-      stream: false,
-      options: {
-        temperature: 0.7,
-        num_predict: 400,
-      },
-    });
-
-    return response.response.trim();
+    return await timed("mentorship", () =>
+      getProvider("mentorship").generate(prompt, { temperature: 0.7, maxTokens: 400 })
+    );
   } catch (error) {
     console.error("Error generating mentorship:", error);
     return null;
   }
 };
 
+// Write a short wrap-up of a sprint for the Sprint Review post
+export const generateSprintSummary = async (digest: SprintDigest): Promise<string | null> => {
+  if (!isProviderReady("digest")) {
+    return null;
+  }
+
+  try {
+    const highlights =
+      digest.highlights.length > 0 ? digest.highlights.map((h) => `- ${h.name}: ${h.text}`).join("\n") : "None yet";
+
+    const prompt = `You are the friendly host of KoruClub, a WhatsApp group where members set goals for 2-week sprints.
+
+Write a brief (2-3 sentences) wrap-up of this sprint for the Sprint Review post:
+- Goals set: ${digest.goalsSet}
+- Completed: ${digest.completed}
+- Still open: ${digest.carryingOver}
+- Active members: ${digest.activeMembers}
+
+Completed goals:
+${highlights}
+
+Celebrate the wins, mention one or two by name, and encourage anyone still working on their goals.
+Be casual and genuine. Use at most two emoji. Do NOT list the numbers again.`;
+
+    const text = await timed("digest", () => getProvider("digest").generate(prompt, { temperature: 0.7, maxTokens: 200 }));
+
+    if (!isValidResponse(text)) {
+      llmFailures.inc({ task: "digest", reason: "invalid" });
+      console.warn("[LLM] Invalid sprint summary, using fallback");
+      return null;
+    }
+
+    return text;
+  } catch (error) {
+    console.error("Error generating sprint summary:", error);
+    return null;
+  }
+};
+
 // ============================================
 // ADMIN CHAT - Conversational DB queries
 // ============================================
 
 // Admin can have a conversation with the LLM about the database
 export const adminChat = async (message: string): Promise<string> => {
-  if (!modelReady) {
+  if (!isProviderReady("chat")) {
     return "LLM is not available right now. Please try again later.";
   }
 
@@ -368,7 +431,7 @@ You have access to the following database information:
 ${dbSummary}
 
 The admin is asking you a question about the data. Answer helpfully and concisely.
-If they ask about specific users, use the last 6 characters of user IDs for privacy (shown as "User abc123").
+If they ask about specific users, refer to them by the names shown in the data.
 If they ask for analysis or suggestions, provide actionable insights.
 If they ask about something not in the data, say so.
 
@@ -376,21 +439,12 @@ Admin's question: "${message}"
 
 Your response:`;
 
-    const response = await ollama.generate({
-      model: MODEL,
-      prompt,
-      stream: false,
-      options: {
-        temperature: 0.5,
-        num_predict: 600,
-      },
-    });
-
-    return response.response.trim();
+    return await timed("chat", () => getProvider("chat").generate(prompt, { temperature: 0.5, maxTokens: 600 }));
   } catch (error) {
     console.error("Error in admin chat:", error);
     return "Sorry, I encountered an error processing your question. Please try again.";
   }
 };
 
-export const isLLMReady = () => modelReady;
+// Whether the provider for a task (or, without a task, any provider) is ready
+export const isLLMReady = (task?: LLMTask) => (task ? isProviderReady(task) : LLM_TASKS.some(isProviderReady));
@@ -0,0 +1,241 @@
+// Group members - names, aliases and preferences behind the WhatsApp IDs goals are recorded under.
+// WhatsApp is moving people from phone IDs (<number>@c.us) to linked-device IDs (<lid>@lid), so a
+// member keeps both and their goals follow whichever ID they last messaged from.
+import { db } from "./db";
+import type { Member as PrismaMember } from "@prisma/client";
+import { now } from "./clock";
+import { getClient } from "./client";
+
+export interface Member {
+  groupId: string;
+  userId: string;
+  phoneId: string | null;
+  lid: string | null;
+  displayName: string;
+  alias: string | null;
+  timezone: string | null;
+  leaderboardOptIn: boolean;
+  trackingOptIn: boolean;
+  joinedAt: Date;
+  lastSeenAt: Date | null;
+}
+
+export type MemberChanges = Partial<Pick<Member, "alias" | "timezone" | "leaderboardOptIn" | "trackingOptIn">>;
+
+const toMember = (m: PrismaMember): Member => ({
+  groupId: m.groupId,
+  userId: m.userId,
+  phoneId: m.phoneId,
+  lid: m.lid,
+  displayName: m.displayName,
+  alias: m.alias,
+  timezone: m.timezone,
+  leaderboardOptIn: m.leaderboardOptIn,
+  trackingOptIn: m.trackingOptIn,
+  joinedAt: m.joinedAt,
+  lastSeenAt: m.lastSeenAt,
+});
+
+// How long a message author's name and IDs are trusted before they are looked up again
+const REFRESH_MS = 6 * 60 * 60 * 1000;
+const lastChecked = new Map<string, number>(); // "<groupId>|<userId>" -> ms
+
+// Last 6 digits of a WhatsApp ID - how admins have always told members apart
+export const shortUserId = (userId: string) => userId.replace(/@.*$/, "").slice(-6);
+
+// Name to show for a member: their alias, then their WhatsApp name, then the short ID
+export const memberName = (member: Pick<Member, "alias" | "displayName"> | null | undefined, userId: string): string =>
+  member?.alias || member?.displayName || `...${shortUserId(userId)}`;
+
+// Phone and linked-device IDs for a WhatsApp user, as far as WhatsApp will tell
+const lookupIds = async (userId: string): Promise<{ phoneId: string | null; lid: string | null }> => {
+  const own = {
+    phoneId: userId.endsWith("@c.us") ? userId : null,
+    lid: userId.endsWith("@lid") ? userId : null,
+  };
+  try {
+    const [known] = await getClient().getContactLidAndPhone([userId]);
+    return { phoneId: known?.pn || own.phoneId, lid: known?.lid || own.lid };
+  } catch {
+    return own;
+  }
+};
+
+const lookupName = async (userId: string): Promise<string> => {
+  try {
+    const contact = await getClient().getContactById(userId);
+    return contact.pushname || contact.name || contact.shortName || "";
+  } catch {
+    return "";
+  }
+};
+
+// The stored member behind any of a person's IDs
+const findByIds = (groupId: string, ids: string[]) =>
+  db.member.findFirst({
+    where: { groupId, OR: [{ userId: { in: ids } }, { phoneId: { in: ids } }, { lid: { in: ids } }] },
+  });
+
+// Create or refresh the member behind a WhatsApp ID. An author has just messaged from the ID,
+// so it becomes the one their goals are recorded under.
+const saveMember = async (groupId: string, userId: string, asAuthor: boolean): Promise<Member> => {
+  const [{ phoneId, lid }, displayName] = await Promise.all([lookupIds(userId), lookupName(userId)]);
+  const existing = await findByIds(groupId, [userId, phoneId, lid].filter((id): id is string => !!id));
+  const seen = asAuthor ? { lastSeenAt: now() } : {};
+
+  if (!existing) {
+    return toMember(await db.member.create({ data: { groupId, userId, phoneId, lid, displayName, ...seen } }));
+  }
+
+  const where = { groupId_userId: { groupId, userId: existing.userId } };
+  const details = {
+    phoneId: phoneId ?? existing.phoneId,
+    lid: lid ?? existing.lid,
+    displayName: displayName || existing.displayName,
+    ...seen,
+  };
+  if (!asAuthor || existing.userId === userId) {
+    return toMember(await db.member.update({ where, data: details }));
+  }
+
+  // Same person on a new ID - move their goals across so their history and stats stay together
+  const [moved, updated] = await db.$transaction([
+    db.goal.updateMany({ where: { groupId, userId: existing.userId }, data: { userId } }),
+    db.member.update({ where, data: { ...details, userId } }),
+  ]);
+  console.log(`[Members] ${existing.userId} now messages as ${userId} in ${groupId} - moved ${moved.count} goal(s)`);
+  return toMember(updated);
+};
+
+// Note who wrote a group message. Cheap for people seen recently; never throws.
+export const recordMessageAuthor = async (groupId: string, userId: string): Promise<void> => {
+  const key = `${groupId}|${userId}`;
+  if (now().getTime() - (lastChecked.get(key) ?? 0) < REFRESH_MS) return;
+  lastChecked.set(key, now().getTime());
+
+  try {
+    await saveMember(groupId, userId, true);
+  } catch (error) {
+    lastChecked.delete(key);
+    console.error(`[Members] Failed to record ${userId} in ${groupId}:`, error);
+  }
+};
+
+// Add group participants who aren't stored yet, e.g. people who joined but haven't posted.
+// Returns how many were added.
+export const syncMembers = async (groupId: string, participantIds: string[]): Promise<number> => {
+  const members = await db.member.findMany({ where: { groupId }, select: { userId: true, phoneId: true, lid: true } });
+  const known = new Set(members.flatMap((m) => [m.userId, m.phoneId, m.lid]));
+  const unknown = participantIds.filter((id) => !known.has(id));
+
+  for (const userId of unknown) {
+    await saveMember(groupId, userId, false);
+  }
+  if (unknown.length > 0) console.log(`[Members] Added ${unknown.length} member(s) of ${groupId}`);
+  return unknown.length;
+};
+
+export const getMembers = async (groupId: string): Promise<Member[]> => {
+  const members = await db.member.findMany({ where: { groupId }, orderBy: { joinedAt: "asc" } });
+  return members.map(toMember);
+};
+
+// A member by any of their IDs
+export const getMember = async (groupId: string, userId: string): Promise<Member | null> => {
+  const member = await findByIds(groupId, [userId]);
+  return member ? toMember(member) : null;
+};
+
+// Members for a set of goal user IDs, in one group or across all of them
+export const getMemberMap = async (groupId: string | undefined, userIds: string[]): Promise<Map<string, Member>> => {
+  if (userIds.length === 0) return new Map();
+  const members = await db.member.findMany({ where: { ...(groupId ? { groupId } : {}), userId: { in: userIds } } });
+  return new Map(members.map((m) => [m.userId, toMember(m)]));
+};
+
+// Display names for a set of goal user IDs
+export const getMemberNames = async (groupId: string | undefined, userIds: string[]): Promise<Map<string, string>> => {
+  const members = await getMemberMap(groupId, userIds);
+  return new Map(userIds.map((userId) => [userId, memberName(members.get(userId), userId)]));
+};
+
+export const updateMember = async (groupId: string, userId: string, changes: MemberChanges): Promise<Member | null> => {
+  const member = await findByIds(groupId, [userId]);
+  if (!member) return null;
+  const updated = await db.member.update({
+    where: { groupId_userId: { groupId, userId: member.userId } },
+    data: changes,
+  });
+  return toMember(updated);
+};
+
+// Turn automatic goal capture and completion matching off or on for a member
+export const setTracking = async (groupId: string, userId: string, enabled: boolean): Promise<void> => {
+  const updated = await updateMember(groupId, userId, { trackingOptIn: enabled });
+  if (!updated) {
+    await db.member.create({ data: { groupId, userId, trackingOptIn: enabled, lastSeenAt: now() } });
+  }
+  console.log(`[Members] ${userId} opted ${enabled ? "in to" : "out of"} goal tracking in ${groupId}`);
+};
+
+export const isTrackingEnabled = async (groupId: string, userId: string): Promise<boolean> =>
+  (await getMember(groupId, userId))?.trackingOptIn !== false;
+
+// Members who opted out of goal tracking, in one group or across all of them
+export const getOptedOutUserIds = async (groupId?: string): Promise<Set<string>> => {
+  const members = await db.member.findMany({
+    where: { ...(groupId ? { groupId } : {}), trackingOptIn: false },
+    select: { userId: true },
+  });
+  return new Set(members.map((m) => m.userId));
+};
+
+// Delete everything stored about a member in a group: their goals and goal reviews, their undo
+// record, DMs queued to them and their member record. They are recorded afresh if they post
+// again - except that an opt-out sticks: an opted-out member's record is kept, with just their
+// IDs and the opt-out, so the bot keeps ignoring them.
+//
+// Group messages about them - ones mentioning them, or tied to their goals like confirmation
+// prompts - are dropped if still queued, and have their text blanked if already sent. Scheduled
+// and manual job posts are left alone, so their job runs still complete.
+export const forgetMember = async (
+  groupId: string,
+  userId: string
+): Promise<{ goals: number; keptOptOut: boolean }> => {
+  const member = await findByIds(groupId, [userId]);
+  const ids = [...new Set([userId, member?.userId, member?.phoneId, member?.lid])].filter((id): id is string => !!id);
+  const keptOptOut = member?.trackingOptIn === false;
+
+  const goals = await db.$transaction(async (tx) => {
+    const owned = await tx.goal.findMany({ where: { groupId, userId: { in: ids } }, select: { id: true } });
+    const aboutMember = {
+      chatId: groupId,
+      jobRunId: null,
+      NOT: [{ key: { startsWith: "job:" } }, { key: { startsWith: "manual:" } }],
+      OR: [
+        { mentions: { hasSome: ids } },
+        ...owned.map((goal) => ({ onDelivered: { path: ["goalIds"], array_contains: [goal.id] } })),
+      ],
+    };
+    await tx.outboxMessage.deleteMany({ where: { ...aboutMember, status: "pending" } });
+    await tx.outboxMessage.updateMany({ where: aboutMember, data: { body: "" } });
+    await tx.outboxMessage.deleteMany({ where: { chatId: { in: ids } } });
+
+    await tx.leftoverReview.deleteMany({ where: { groupId, userId: { in: ids } } });
+    await tx.goalUndo.deleteMany({ where: { groupId, userId: { in: ids } } });
+    const deleted = await tx.goal.deleteMany({ where: { groupId, userId: { in: ids } } });
+
+    if (keptOptOut) {
+      await tx.member.update({
+        where: { groupId_userId: { groupId, userId: member.userId } },
+        data: { displayName: "", alias: null, timezone: null, lastSeenAt: null },
+      });
+    } else {
+      await tx.member.deleteMany({ where: { groupId, userId: { in: ids } } });
+    }
+    return deleted.count;
+  });
+  ids.forEach((id) => lastChecked.delete(`${groupId}|${id}`));
+  console.log(`[Members] Forgot ${userId} in ${groupId} (${goals} goal(s))${keptOptOut ? ", kept their opt-out" : ""}`);
+  return { goals, keptOptOut };
+};
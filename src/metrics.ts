@@ -0,0 +1,162 @@
+// Prometheus metrics - counters and histograms updated as the bot works, plus gauges
+// read from the database when /metrics is scraped
+import { getRunStatusCounts, getSchedulerStates } from "./jobTracker";
+import { isLeader } from "./leader";
+import { now } from "./clock";
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render: () => string[];
+}
+
+const metrics: Metric[] = [];
+
+const escapeLabel = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+};
+
+// Label sets are keyed by their serialized form, so label order must be consistent per metric
+const labelKey = (labels: Labels) => formatLabels(labels);
+
+const createCounter = (name: string, help: string) => {
+  const values = new Map<string, { labels: Labels; value: number }>();
+  metrics.push({
+    name,
+    help,
+    type: "counter",
+    render: () => [...values.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+  });
+  return {
+    inc: (labels: Labels = {}, amount = 1) => {
+      const key = labelKey(labels);
+      const current = values.get(key);
+      values.set(key, { labels, value: (current?.value ?? 0) + amount });
+    },
+  };
+};
+
+const createGauge = (name: string, help: string) => {
+  const values = new Map<string, { labels: Labels; value: number }>();
+  metrics.push({
+    name,
+    help,
+    type: "gauge",
+    render: () => [...values.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+  });
+  return {
+    set: (value: number, labels: Labels = {}) => {
+      values.set(labelKey(labels), { labels, value });
+    },
+    // Replace every series at once (for gauges refreshed from the database)
+    reset: () => values.clear(),
+  };
+};
+
+const DEFAULT_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const createHistogram = (name: string, help: string, buckets = DEFAULT_BUCKETS) => {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  metrics.push({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      [...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map((le, i) => `${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${counts[i]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+  });
+
+  const observe = (labels: Labels, value: number) => {
+    const key = labelKey(labels);
+    const entry = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+    buckets.forEach((le, i) => {
+      if (value <= le) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    series.set(key, entry);
+  };
+
+  return {
+    observe,
+    // Returns a function that records the seconds elapsed since the timer started
+    startTimer: (labels: Labels) => {
+      const start = performance.now();
+      return () => observe(labels, (performance.now() - start) / 1000);
+    },
+  };
+};
+
+export const messagesHandled = createCounter(
+  "koruclub_messages_handled_total",
+  "Messages handled, by bot command (or \"message\" for ordinary chat) and chat type"
+);
+
+export const goalEvents = createCounter(
+  "koruclub_goals_total",
+  "Goals extracted from chat, completed and carried over to a new sprint"
+);
+
+export const llmDuration = createHistogram("koruclub_llm_request_duration_seconds", "LLM request latency by task");
+
+export const llmFailures = createCounter(
+  "koruclub_llm_failures_total",
+  "Failed LLM requests by task - reason is error (request failed) or invalid (response rejected)"
+);
+
+export const whatsappConnected = createGauge("koruclub_whatsapp_connected", "1 while the WhatsApp client is ready");
+whatsappConnected.set(0);
+
+export const whatsappReconnects = createCounter(
+  "koruclub_whatsapp_reconnects_total",
+  "Times the WhatsApp client became ready again after disconnecting"
+);
+
+const leaderGauge = createGauge("koruclub_leader", "1 if this instance holds the leader lease");
+const jobRunsGauge = createGauge("koruclub_job_runs", "Scheduled job runs recorded, by job type and status");
+const heartbeatAge = createGauge(
+  "koruclub_scheduler_heartbeat_age_seconds",
+  "Seconds since each group's scheduler heartbeat was last written"
+);
+
+// Refresh the gauges that come from the database
+const collectStoredMetrics = async () => {
+  leaderGauge.set(isLeader() ? 1 : 0);
+
+  jobRunsGauge.reset();
+  for (const { groupId, jobType, status, count } of await getRunStatusCounts()) {
+    jobRunsGauge.set(count, { group: groupId, job: jobType, status });
+  }
+
+  heartbeatAge.reset();
+  const current = now().getTime();
+  for (const { groupId, lastHeartbeat } of await getSchedulerStates()) {
+    heartbeatAge.set(Math.round((current - lastHeartbeat.getTime()) / 1000), { group: groupId });
+  }
+};
+
+// All metrics in the Prometheus text exposition format
+export const renderMetrics = async (): Promise<string> => {
+  try {
+    await collectStoredMetrics();
+  } catch (error) {
+    console.error("[Metrics] Failed to read stored metrics:", error);
+  }
+
+  const lines = metrics.flatMap((metric) => [
+    `# HELP ${metric.name} ${metric.help}`,
+    `# TYPE ${metric.name} ${metric.type}`,
+    ...metric.render(),
+  ]);
+  return `${lines.join("\n")}\n`;
+};
@@ -0,0 +1,329 @@
+// Durable outbound queue - every WhatsApp send, reply and reaction is written to the
+// outbox first and delivered by a worker with backoff, so nothing is lost on a restart
+import { createHash, randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
+import type { OutboxMessage } from "@prisma/client";
+import { db } from "./db";
+import { getClient } from "./client";
+import { now } from "./clock";
+import { recordJobCompleted, recordJobFailed } from "./jobTracker";
+const { MessageMedia } = require("whatsapp-web.js");
+
+export type OutboxKind = "message" | "reaction" | "document";
+export type OutboxStatus = "pending" | "sending" | "sent" | "dead";
+
+export interface OutboxEntry {
+  id: string;
+  key: string;
+  kind: OutboxKind;
+  chatId: string;
+  body: string;
+  quotedMessageId: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  messageId: string | null;
+  lastError: string | null;
+}
+
+// Something to record once an entry is delivered, e.g. which sprint a kickoff post opened.
+// The handler registered for its type gets the WhatsApp message ID - whichever instance
+// queued the entry, and however long delivery takes.
+export interface DeliveryHook {
+  type: string;
+  [field: string]: string | string[];
+}
+
+type DeliveryHandler = (hook: DeliveryHook, messageId: string | null) => Promise<void>;
+
+export interface QueueOptions {
+  // Idempotency key - queueing the same key again returns the existing entry
+  // (or revives it if it was dead-lettered). Defaults to a random key.
+  key?: string;
+  quotedMessageId?: string;
+  mentions?: string[];
+  // Scheduled job run to mark completed or failed once delivery succeeds or gives up
+  jobRunId?: string;
+  onDelivered?: DeliveryHook;
+}
+
+const POLL_INTERVAL_MS = 5 * 1000;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+// Delivered entries are kept this long (for idempotency and debugging), then purged
+const SENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+interface DocumentFile {
+  fileName: string;
+  mimeType: string;
+}
+
+const toEntry = (m: OutboxMessage): OutboxEntry => ({
+  id: m.id,
+  key: m.key,
+  kind: m.kind as OutboxKind,
+  chatId: m.chatId,
+  body: m.body,
+  quotedMessageId: m.quotedMessageId,
+  status: m.status as OutboxStatus,
+  attempts: m.attempts,
+  messageId: m.messageId,
+  lastError: m.lastError,
+});
+
+const digest = (text: string) => createHash("sha1").update(text).digest("hex").slice(0, 12);
+
+const deliveryHandlers = new Map<string, DeliveryHandler>();
+
+// Register what to do when an entry queued with an onDelivered hook of this type is sent
+export const onDelivered = (type: string, handler: DeliveryHandler) => {
+  deliveryHandlers.set(type, handler);
+};
+
+let pollInterval: NodeJS.Timeout | null = null;
+let draining = false;
+let drainAgain = false;
+let lastPurge = 0;
+
+const enqueue = async (
+  kind: OutboxKind,
+  chatId: string,
+  body: string,
+  options: QueueOptions,
+  file?: DocumentFile
+): Promise<OutboxEntry> => {
+  const key = options.key ?? randomUUID();
+  const data = {
+    kind,
+    chatId,
+    body,
+    fileName: file?.fileName ?? null,
+    mimeType: file?.mimeType ?? null,
+    quotedMessageId: options.quotedMessageId ?? null,
+    mentions: options.mentions ?? [],
+    jobRunId: options.jobRunId ?? null,
+    onDelivered: options.onDelivered ?? Prisma.DbNull,
+  };
+
+  const existing = await db.outboxMessage.findUnique({ where: { key } });
+  if (existing && existing.status !== "dead") return toEntry(existing);
+
+  const entry = existing
+    ? await db.outboxMessage.update({
+        where: { id: existing.id },
+        data: { ...data, status: "pending", attempts: 0, lastError: null, nextAttemptAt: now() },
+      })
+    : await db.outboxMessage.create({ data: { key, ...data, nextAttemptAt: now() } });
+  if (existing) console.log(`[Outbox] Revived dead-lettered ${key}`);
+
+  kickWorker();
+  return toEntry(entry);
+};
+
+export const queueMessage = (chatId: string, text: string, options: QueueOptions = {}): Promise<OutboxEntry> =>
+  enqueue("message", chatId, text, options);
+
+export const queueReaction = (chatId: string, messageId: string, emoji: string): Promise<OutboxEntry> =>
+  enqueue("reaction", chatId, emoji, { key: `react:${messageId}:${emoji}`, quotedMessageId: messageId });
+
+// Send a file as a WhatsApp document
+export const queueDocument = (
+  chatId: string,
+  file: DocumentFile & { contents: string | Buffer },
+  options: QueueOptions = {}
+): Promise<OutboxEntry> =>
+  enqueue("document", chatId, Buffer.from(file.contents).toString("base64"), options, file);
+
+// Reply to an incoming message - replaying the same message gives the same reply only once
+export const queueReply = (
+  message: { id: { _serialized: string; remote: string } },
+  text: string,
+  onDelivered?: DeliveryHook
+) =>
+  queueMessage(message.id.remote, text, {
+    key: `reply:${message.id._serialized}:${digest(text)}`,
+    quotedMessageId: message.id._serialized,
+    onDelivered,
+  });
+
+export const queueReact = (message: { id: { _serialized: string; remote: string } }, emoji: string) =>
+  queueReaction(message.id.remote, message.id._serialized, emoji);
+
+const backoffMs = (attempts: number) => Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+const deliver = async (entry: OutboxMessage): Promise<string | null> => {
+  const client = getClient();
+  if (entry.kind === "reaction") {
+    const message = await client.getMessageById(entry.quotedMessageId!);
+    if (!message) throw new Error(`Message ${entry.quotedMessageId} not found`);
+    await message.react(entry.body);
+    return null;
+  }
+
+  if (entry.kind === "document") {
+    const media = new MessageMedia(entry.mimeType!, entry.body, entry.fileName!);
+    const sent = await client.sendMessage(entry.chatId, media, { sendSeen: false, sendMediaAsDocument: true });
+    return sent.id._serialized;
+  }
+
+  const sent = await client.sendMessage(entry.chatId, entry.body, {
+    sendSeen: false,
+    ...(entry.quotedMessageId ? { quotedMessageId: entry.quotedMessageId } : {}),
+    ...(entry.mentions.length > 0 ? { mentions: entry.mentions } : {}),
+  });
+  return sent.id._serialized;
+};
+
+// A delivery hook failing doesn't undo the send - it's logged for a manual fix
+const runDeliveryHook = async (entry: OutboxMessage, messageId: string | null) => {
+  const hook = entry.onDelivered as DeliveryHook | null;
+  if (!hook) return;
+
+  const handler = deliveryHandlers.get(hook.type);
+  if (!handler) {
+    console.error(`[Outbox] No delivery handler for ${hook.type} (${entry.key})`);
+    return;
+  }
+  try {
+    await handler(hook, messageId);
+  } catch (error) {
+    console.error(`[Outbox] Delivery handler ${hook.type} failed for ${entry.key}:`, error);
+  }
+};
+
+type DeliveryOutcome = "sent" | "retry" | "dead" | "taken";
+
+// Claim and deliver one entry. "taken" means another worker got to it first.
+const processEntry = async (entry: OutboxMessage): Promise<DeliveryOutcome> => {
+  const claimed = await db.outboxMessage.updateMany({
+    where: { id: entry.id, status: "pending" },
+    data: { status: "sending", attempts: { increment: 1 } },
+  });
+  if (claimed.count === 0) return "taken";
+
+  const attempts = entry.attempts + 1;
+  try {
+    const messageId = await deliver(entry);
+    await db.outboxMessage.update({
+      where: { id: entry.id },
+      // Documents can hold whole data exports - their contents aren't kept once sent
+      data: {
+        status: "sent",
+        messageId,
+        sentAt: now(),
+        lastError: null,
+        ...(entry.kind === "document" ? { body: "" } : {}),
+      },
+    });
+    if (entry.jobRunId) await recordJobCompleted(entry.jobRunId, messageId ?? undefined);
+    await runDeliveryHook(entry, messageId);
+    return "sent";
+  } catch (error) {
+    const lastError = String(error);
+    if (attempts >= MAX_ATTEMPTS) {
+      await db.outboxMessage.update({ where: { id: entry.id }, data: { status: "dead", lastError } });
+      console.error(`[Outbox] Dead-lettered ${entry.key} after ${attempts} attempts: ${lastError}`);
+      if (entry.jobRunId) await recordJobFailed(entry.jobRunId, `Undeliverable: ${lastError}`);
+      return "dead";
+    }
+    const delay = backoffMs(attempts);
+    await db.outboxMessage.update({
+      where: { id: entry.id },
+      data: { status: "pending", lastError, nextAttemptAt: new Date(now().getTime() + delay) },
+    });
+    console.warn(`[Outbox] Attempt ${attempts} for ${entry.key} failed, retrying in ${delay / 1000}s: ${lastError}`);
+    return "retry";
+  }
+};
+
+/**
+ * Deliver due entries, oldest first. Each chat's messages go out in the order they were
+ * queued: while a chat's earliest pending entry waits for a retry, later ones wait with it.
+ */
+export const drainOutbox = async (): Promise<number> => {
+  const client = getClient();
+  if (!client.info?.wid) return 0; // not connected - try again on the next poll
+
+  const pending = await db.outboxMessage.findMany({
+    where: { status: "pending" },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const heldChats = new Set<string>();
+  let delivered = 0;
+  for (const entry of pending) {
+    if (heldChats.has(entry.chatId)) continue;
+    if (entry.nextAttemptAt > now()) {
+      heldChats.add(entry.chatId);
+      continue;
+    }
+
+    const outcome = await processEntry(entry);
+    if (outcome === "sent") delivered++;
+    else if (outcome !== "dead") heldChats.add(entry.chatId);
+  }
+  return delivered;
+};
+
+// Delete delivered entries past the retention period
+export const purgeSentMessages = async (): Promise<number> => {
+  const cutoff = new Date(now().getTime() - SENT_RETENTION_MS);
+  const result = await db.outboxMessage.deleteMany({ where: { status: "sent", sentAt: { lt: cutoff } } });
+  if (result.count > 0) {
+    console.log(`[Outbox] Purged ${result.count} delivered entr${result.count === 1 ? "y" : "ies"}`);
+  }
+  return result.count;
+};
+
+const runDrain = async () => {
+  if (draining) {
+    drainAgain = true;
+    return;
+  }
+  draining = true;
+  try {
+    do {
+      drainAgain = false;
+      await drainOutbox();
+    } while (drainAgain);
+    if (now().getTime() - lastPurge >= PURGE_INTERVAL_MS) {
+      lastPurge = now().getTime();
+      await purgeSentMessages();
+    }
+  } catch (error) {
+    console.error("[Outbox] Drain failed:", error);
+  } finally {
+    draining = false;
+  }
+};
+
+// Deliver new entries straight away instead of waiting for the next poll
+const kickWorker = () => {
+  if (pollInterval) setImmediate(runDrain);
+};
+
+export const startOutboxWorker = async () => {
+  if (pollInterval) return;
+
+  // A crash mid-send leaves entries claimed - retry them (at-least-once delivery)
+  const recovered = await db.outboxMessage.updateMany({
+    where: { status: "sending" },
+    data: { status: "pending" },
+  });
+  if (recovered.count > 0) {
+    console.log(`[Outbox] Re-queued ${recovered.count} entr${recovered.count === 1 ? "y" : "ies"} interrupted mid-send`);
+  }
+
+  pollInterval = setInterval(runDrain, POLL_INTERVAL_MS);
+  kickWorker();
+  console.log("[Outbox] Worker started");
+};
+
+export const stopOutboxWorker = () => {
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+};
+
@@ -0,0 +1,39 @@
+// Deterministic provider for tests and offline runs - answers from canned responses
+import type { GenerateOptions, LLMProvider } from "./types";
+import { parseJSONFromText } from "./types";
+import type { JSONSchema } from "./schema";
+
+export interface FakeResponse {
+  // Prompt substring or pattern this response answers
+  match: string | RegExp;
+  // Fixed text, or computed from the prompt for rule-based stubs
+  response: string | ((prompt: string) => string);
+}
+
+export interface FakeProvider extends LLMProvider {
+  // Every prompt received, in order
+  calls: string[];
+}
+
+export const createFakeProvider = (responses: FakeResponse[] = [], fallback = "[]"): FakeProvider => {
+  const calls: string[] = [];
+
+  const generate = async (prompt: string, _options?: GenerateOptions): Promise<string> => {
+    calls.push(prompt);
+    const found = responses.find(({ match }) => (typeof match === "string" ? prompt.includes(match) : match.test(prompt)));
+    if (!found) return fallback;
+    return typeof found.response === "string" ? found.response : found.response(prompt);
+  };
+
+  return {
+    name: "fake",
+    calls,
+    init: async () => true,
+    generate,
+    // The schema isn't enforced - canned responses are returned as-is so validation can be exercised
+    generateJSON: async <T>(prompt: string, _schema: JSONSchema, options?: GenerateOptions) => {
+      const raw = await generate(prompt, options);
+      return { raw, value: parseJSONFromText<T>(raw) };
+    },
+  };
+};
@@ -0,0 +1,103 @@
+// LLM provider selection - each task can run on its own backend and model
+import type { LLMProvider } from "./types";
+import { createOllamaProvider } from "./ollama";
+import { createOpenAICompatibleProvider } from "./openai";
+import { createFakeProvider } from "./fake";
+
+export type { LLMProvider, GenerateOptions, JSONResponse } from "./types";
+export { parseJSONFromText } from "./types";
+export type { JSONSchema } from "./schema";
+export { validateSchema } from "./schema";
+export { createOllamaProvider } from "./ollama";
+export { createOpenAICompatibleProvider } from "./openai";
+export { createFakeProvider } from "./fake";
+
+export type LLMTask = "extraction" | "matching" | "response" | "mentorship" | "chat" | "digest";
+export const LLM_TASKS: LLMTask[] = ["extraction", "matching", "response", "mentorship", "chat", "digest"];
+
+export type ProviderKind = "ollama" | "openai" | "fake";
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  model: string;
+}
+
+const DEFAULT_MODEL = process.env.LLM_MODEL || process.env.OLLAMA_MODEL || "qwen2:0.5b";
+const OLLAMA_HOST = process.env.OLLAMA_HOST || "http://localhost:11434";
+const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || "http://localhost:8080/v1";
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+
+const parseProviderKind = (value: string | undefined): ProviderKind | null => {
+  if (!value) return null;
+  const kind = value.toLowerCase();
+  if (kind === "ollama" || kind === "openai" || kind === "fake") return kind;
+  console.warn(`[LLM] Unknown provider "${value}", using ollama`);
+  return "ollama";
+};
+
+/**
+ * Provider config for a task, from LLM_<TASK>_PROVIDER / LLM_<TASK>_MODEL,
+ * falling back to LLM_PROVIDER / LLM_MODEL (or OLLAMA_MODEL).
+ */
+export const getTaskConfig = (task: LLMTask): ProviderConfig => {
+  const prefix = `LLM_${task.toUpperCase()}`;
+  return {
+    kind: parseProviderKind(process.env[`${prefix}_PROVIDER`]) ?? parseProviderKind(process.env.LLM_PROVIDER) ?? "ollama",
+    model: process.env[`${prefix}_MODEL`] || DEFAULT_MODEL,
+  };
+};
+
+export const createProvider = ({ kind, model }: ProviderConfig): LLMProvider => {
+  switch (kind) {
+    case "ollama":
+      return createOllamaProvider(model, OLLAMA_HOST);
+    case "openai":
+      return createOpenAICompatibleProvider(model, OPENAI_BASE_URL, OPENAI_API_KEY);
+    case "fake":
+      return createFakeProvider();
+  }
+};
+
+// Tasks sharing a backend and model share one provider instance
+const providers = new Map<string, LLMProvider>();
+const taskProviders = new Map<LLMTask, LLMProvider>();
+const readyProviders = new Set<LLMProvider>();
+
+export const getProvider = (task: LLMTask): LLMProvider => {
+  let provider = taskProviders.get(task);
+  if (!provider) {
+    const config = getTaskConfig(task);
+    const key = `${config.kind}:${config.model}`;
+    provider = providers.get(key) ?? createProvider(config);
+    providers.set(key, provider);
+    taskProviders.set(task, provider);
+  }
+  return provider;
+};
+
+// Replace the provider for a task (e.g. a fake provider in tests)
+export const setProvider = (task: LLMTask, provider: LLMProvider, ready = true) => {
+  taskProviders.set(task, provider);
+  if (ready) readyProviders.add(provider);
+};
+
+// Initialize every provider in use. Returns true if all of them are ready.
+export const initProviders = async (): Promise<boolean> => {
+  const inUse = new Set(LLM_TASKS.map(getProvider));
+
+  for (const provider of inUse) {
+    try {
+      await provider.init();
+      readyProviders.add(provider);
+      const tasks = LLM_TASKS.filter((task) => getProvider(task) === provider);
+      console.log(`LLM ready: ${provider.name} (${tasks.join(", ")})`);
+    } catch (error) {
+      console.error(`Failed to initialize LLM ${provider.name}:`, error);
+      readyProviders.delete(provider);
+    }
+  }
+
+  return [...inUse].every((provider) => readyProviders.has(provider));
+};
+
+export const isProviderReady = (task: LLMTask): boolean => readyProviders.has(getProvider(task));
@@ -0,0 +1,46 @@
+// Ollama backend (local models, pulled on first use)
+import { Ollama } from "ollama";
+import type { GenerateOptions, LLMProvider } from "./types";
+import { parseJSONFromText } from "./types";
+import type { JSONSchema } from "./schema";
+
+export const createOllamaProvider = (model: string, host: string): LLMProvider => {
+  const ollama = new Ollama({ host });
+
+  const generate = async (prompt: string, options: GenerateOptions = {}, format?: JSONSchema): Promise<string> => {
+    const response = await ollama.generate({
+      model,
+      prompt,
+      stream: false,
+      format,
+      options: {
+        temperature: options.temperature,
+        num_predict: options.maxTokens,
+      },
+    });
+    return response.response.trim();
+  };
+
+  return {
+    name: `ollama/${model}`,
+
+    init: async () => {
+      const models = await ollama.list();
+      const hasModel = models.models.some((m: { name: string }) => m.name.startsWith(model.split(":")[0]));
+
+      if (!hasModel) {
+        console.log(`Model ${model} not found, pulling...`);
+        await ollama.pull({ model });
+      }
+      return true;
+    },
+
+    generate: (prompt, options) => generate(prompt, options),
+
+    // Ollama constrains the output to the schema via `format`
+    generateJSON: async <T>(prompt: string, schema: JSONSchema, options?: GenerateOptions) => {
+      const raw = await generate(prompt, options, schema);
+      return { raw, value: parseJSONFromText<T>(raw) };
+    },
+  };
+};
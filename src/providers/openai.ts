@@ -0,0 +1,63 @@
+// Any OpenAI-compatible /v1/chat/completions server (llama.cpp server, vLLM, LM Studio, ...)
+import type { GenerateOptions, LLMProvider } from "./types";
+import { parseJSONFromText } from "./types";
+import type { JSONSchema } from "./schema";
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+export const createOpenAICompatibleProvider = (model: string, baseUrl: string, apiKey?: string): LLMProvider => {
+  const url = baseUrl.replace(/\/+$/, "");
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+  };
+
+  const generate = async (prompt: string, options: GenerateOptions = {}, schema?: JSONSchema): Promise<string> => {
+    const res = await fetch(`${url}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        stream: false,
+        ...(schema ? { response_format: { type: "json_schema", json_schema: { name: "response", schema } } } : {}),
+      }),
+    });
+
+    if (!res.ok) {
+      throw new Error(`Chat completion failed: ${res.status} ${await res.text()}`);
+    }
+
+    const body = (await res.json()) as ChatCompletionResponse;
+    return body.choices?.[0]?.message?.content?.trim() ?? "";
+  };
+
+  return {
+    name: `openai/${model}`,
+
+    init: async () => {
+      const res = await fetch(`${url}/models`, { headers });
+      if (!res.ok) {
+        throw new Error(`${url}/models returned ${res.status}`);
+      }
+
+      // Single-model servers often report their own model name, so a mismatch is only a warning
+      const body = (await res.json()) as { data?: { id: string }[] };
+      if (body.data && !body.data.some((m) => m.id === model)) {
+        console.warn(`[LLM] ${url} does not list model ${model}`);
+      }
+      return true;
+    },
+
+    generate: (prompt, options) => generate(prompt, options),
+
+    generateJSON: async <T>(prompt: string, schema: JSONSchema, options?: GenerateOptions) => {
+      const raw = await generate(prompt, options, schema);
+      return { raw, value: parseJSONFromText<T>(raw) };
+    },
+  };
+};
@@ -0,0 +1,57 @@
+// Minimal JSON Schema subset for structured LLM output - sent to the backend to
+// constrain generation, and used to validate what comes back
+
+export type JSONSchema =
+  | { type: "string"; enum?: string[]; minLength?: number; maxLength?: number }
+  | { type: "number" | "integer" | "boolean" }
+  | { type: "array"; items: JSONSchema; maxItems?: number }
+  | { type: "object"; properties: Record<string, JSONSchema>; required?: string[] };
+
+// Validate a value against a schema. Returns a list of problems (empty when valid).
+export const validateSchema = (value: unknown, schema: JSONSchema, path = "$"): string[] => {
+  switch (schema.type) {
+    case "string": {
+      if (typeof value !== "string") return [`${path} should be a string`];
+      const errors: string[] = [];
+      if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${path} should be one of ${schema.enum.join(", ")}`);
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push(`${path} is shorter than ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push(`${path} is longer than ${schema.maxLength} characters`);
+      }
+      return errors;
+    }
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || (schema.type === "integer" && !Number.isInteger(value))) {
+        return [`${path} should be ${schema.type === "integer" ? "an integer" : "a number"}`];
+      }
+      return [];
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${path} should be a boolean`];
+    case "array": {
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      const errors = value.flatMap((item, i) => validateSchema(item, schema.items, `${path}[${i}]`));
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path} has more than ${schema.maxItems} items`);
+      }
+      return errors;
+    }
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return [`${path} should be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors = (schema.required ?? [])
+        .filter((key) => !(key in record))
+        .map((key) => `${path}.${key} is missing`);
+      for (const [key, propSchema] of Object.entries(schema.properties)) {
+        if (key in record) errors.push(...validateSchema(record[key], propSchema, `${path}.${key}`));
+      }
+      return errors;
+    }
+  }
+};
@@ -0,0 +1,39 @@
+// Shared LLM provider types
+import type { JSONSchema } from "./schema";
+
+export interface GenerateOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMProvider {
+  // Human-readable identifier for logs, e.g. "ollama/qwen2:0.5b"
+  readonly name: string;
+  // Check the backend is reachable and the model is available
+  init(): Promise<boolean>;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+  // Generate JSON constrained to a schema (where the backend supports it). The value is
+  // null if the response couldn't be parsed - it still needs validating against the schema.
+  generateJSON<T = unknown>(prompt: string, schema: JSONSchema, options?: GenerateOptions): Promise<JSONResponse<T>>;
+}
+
+export interface JSONResponse<T> {
+  raw: string;
+  value: T | null;
+}
+
+// Pull the first JSON array or object out of a model response
+export const parseJSONFromText = <T = unknown>(text: string): T | null => {
+  const start = text.search(/[[{]/);
+  if (start === -1) return null;
+
+  const close = text[start] === "[" ? "]" : "}";
+  const end = text.lastIndexOf(close);
+  if (end <= start) return null;
+
+  try {
+    return JSON.parse(text.slice(start, end + 1)) as T;
+  } catch {
+    return null;
+  }
+};
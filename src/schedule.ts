@@ -0,0 +1,282 @@
+// Declarative job schedule definitions - one definition per job drives
+// the cron jobs, the status display and missed job detection
+import type { JobType } from "./dateCalculator";
+import type { CalendarDay } from "./utils";
+import { addDays, daysBetween, getWeekday, isLastDayOfMonth, isNthWeekdayOfMonth, parseDateKey, toDateKey } from "./utils";
+import { defaultTimezone } from "./config";
+
+export type ScheduleRule =
+  // e.g. 1st and 3rd Monday of the month (nth: -1 = last)
+  | { kind: "nthWeekday"; weekday: number; nth: number[] }
+  // e.g. every 2 weeks on Wednesday, counted from the anchor date (YYYY-MM-DD)
+  | { kind: "weekly"; weekday: number; everyWeeks: number; anchor: string }
+  | { kind: "lastDayOfMonth" };
+
+// What to do with a run missed while the bot was offline, if it's at most graceHours late
+// (auto = post it, ask = DM the admin to confirm, skip = record it as skipped)
+export type CatchUpMode = "auto" | "ask" | "skip";
+
+export interface CatchUpPolicy {
+  mode: CatchUpMode;
+  graceHours: number;
+}
+
+export interface JobSchedule {
+  jobType: JobType;
+  enabled: boolean;
+  rule: ScheduleRule;
+  hour: number;
+  minute: number;
+  timezone: string;
+  catchUp: CatchUpPolicy;
+}
+
+// Timezone for groups that haven't set their own
+export const DEFAULT_TIMEZONE = defaultTimezone;
+
+export const JOB_TYPES: JobType[] = ["monday", "friday", "demo", "checkIn", "monthEnd"];
+
+export const DEFAULT_SCHEDULES: Record<JobType, JobSchedule> = {
+  monday: {
+    jobType: "monday",
+    enabled: true,
+    rule: { kind: "nthWeekday", weekday: 1, nth: [1, 3] },
+    hour: 9,
+    minute: 0,
+    timezone: DEFAULT_TIMEZONE,
+    catchUp: { mode: "auto", graceHours: 24 },
+  },
+  friday: {
+    jobType: "friday",
+    enabled: true,
+    rule: { kind: "nthWeekday", weekday: 5, nth: [2, 4] },
+    hour: 15,
+    minute: 30,
+    timezone: DEFAULT_TIMEZONE,
+    catchUp: { mode: "auto", graceHours: 12 },
+  },
+  demo: {
+    jobType: "demo",
+    enabled: true,
+    rule: { kind: "nthWeekday", weekday: 6, nth: [2] },
+    hour: 10,
+    minute: 0,
+    timezone: DEFAULT_TIMEZONE,
+    catchUp: { mode: "ask", graceHours: 12 },
+  },
+  checkIn: {
+    jobType: "checkIn",
+    enabled: true,
+    rule: { kind: "nthWeekday", weekday: 3, nth: [2, 4] },
+    hour: 9,
+    minute: 0,
+    timezone: DEFAULT_TIMEZONE,
+    catchUp: { mode: "auto", graceHours: 12 },
+  },
+  monthEnd: {
+    jobType: "monthEnd",
+    enabled: true,
+    rule: { kind: "lastDayOfMonth" },
+    hour: 9,
+    minute: 0,
+    timezone: DEFAULT_TIMEZONE,
+    catchUp: { mode: "auto", graceHours: 24 },
+  },
+};
+
+export const getDefaultSchedules = (timezone: string = DEFAULT_TIMEZONE): JobSchedule[] =>
+  JOB_TYPES.map((type) => ({ ...DEFAULT_SCHEDULES[type], timezone }));
+
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Check whether a calendar date (in the schedule's timezone) matches a rule
+export const matchesRule = (rule: ScheduleRule, day: CalendarDay): boolean => {
+  switch (rule.kind) {
+    case "nthWeekday":
+      return isNthWeekdayOfMonth(day, rule.weekday, rule.nth);
+    case "weekly": {
+      const anchor = parseDateKey(rule.anchor);
+      if (!anchor || getWeekday(day) !== rule.weekday) return false;
+      const weeks = Math.floor(daysBetween(anchor, day) / 7);
+      return ((weeks % rule.everyWeeks) + rule.everyWeeks) % rule.everyWeeks === 0;
+    }
+    case "lastDayOfMonth":
+      return isLastDayOfMonth(day);
+  }
+};
+
+// Weekday the cron job needs to fire on, or null if it must fire daily
+export const getRuleWeekday = (rule: ScheduleRule): number | null => {
+  return rule.kind === "lastDayOfMonth" ? null : rule.weekday;
+};
+
+export type JobDecision = { action: "post" } | { action: "skip"; reason: string } | { action: "ignore" };
+
+// Whether the job's cron trigger fires on this day (weekly triggers, or daily for day-of-month rules)
+export const firesOn = (schedule: JobSchedule, day: CalendarDay): boolean => {
+  const weekday = getRuleWeekday(schedule.rule);
+  return weekday === null || getWeekday(day) === weekday;
+};
+
+// What a job does when its trigger fires on `day` (in the schedule's timezone)
+export const decideJobRun = (schedule: JobSchedule, day: CalendarDay): JobDecision => {
+  if (matchesRule(schedule.rule, day)) return { action: "post" };
+  // Day-of-month rules fire daily - only record a run on the day itself
+  if (getRuleWeekday(schedule.rule) === null) return { action: "ignore" };
+  return { action: "skip", reason: `Not ${describeRule(schedule.rule)} (day ${day.day})` };
+};
+
+export type CatchUpDecision =
+  | { action: "post" }
+  | { action: "ask" }
+  | { action: "skip"; reason: string }
+  | { action: "leave" };
+
+// What to do at `at` with a run of this schedule that should have posted at `scheduledFor`.
+// Runs past the grace window are left as missed for a manual trigger.
+export const decideCatchUp = (schedule: JobSchedule, scheduledFor: Date, at: Date): CatchUpDecision => {
+  const { mode, graceHours } = schedule.catchUp;
+  if (mode === "skip") return { action: "skip", reason: "Missed while offline (catch-up off)" };
+  if (at.getTime() - scheduledFor.getTime() > graceHours * 60 * 60 * 1000) return { action: "leave" };
+  return mode === "auto" ? { action: "post" } : { action: "ask" };
+};
+
+const ordinal = (n: number): string => {
+  if (n === -1) return "last";
+  const suffix = n === 1 ? "st" : n === 2 ? "nd" : n === 3 ? "rd" : "th";
+  return `${n}${suffix}`;
+};
+
+export const describeRule = (rule: ScheduleRule): string => {
+  switch (rule.kind) {
+    case "nthWeekday":
+      return `${rule.nth.map(ordinal).join(" & ")} ${WEEKDAY_LABELS[rule.weekday]}`;
+    case "weekly":
+      return rule.everyWeeks === 1
+        ? `every ${WEEKDAY_LABELS[rule.weekday]}`
+        : `every ${rule.everyWeeks} weeks on ${WEEKDAY_LABELS[rule.weekday]} (from ${rule.anchor})`;
+    case "lastDayOfMonth":
+      return "last day of the month";
+  }
+};
+
+export const formatScheduleTime = (schedule: JobSchedule): string => {
+  return `${String(schedule.hour).padStart(2, "0")}:${String(schedule.minute).padStart(2, "0")}`;
+};
+
+export const describeSchedule = (schedule: JobSchedule): string => {
+  if (!schedule.enabled) return "off";
+  return `${describeRule(schedule.rule)} at ${formatScheduleTime(schedule)} (${schedule.timezone})`;
+};
+
+export const describeCatchUp = (catchUp: CatchUpPolicy): string => {
+  switch (catchUp.mode) {
+    case "auto":
+      return `post if up to ${catchUp.graceHours}h late`;
+    case "ask":
+      return `ask admin if up to ${catchUp.graceHours}h late`;
+    case "skip":
+      return "skip";
+  }
+};
+
+/**
+ * Parse a catch-up policy from admin command tokens: `auto 24`, `ask 12h` or `skip`.
+ * The grace window defaults to the schedule's current one.
+ */
+export const parseCatchUpSpec = (
+  tokens: string[],
+  current: CatchUpPolicy
+): { catchUp: CatchUpPolicy } | { error: string } => {
+  const [mode, hours] = tokens.map((t) => t.toLowerCase());
+  if (mode !== "auto" && mode !== "ask" && mode !== "skip") {
+    return { error: "Expected a catch-up mode: auto, ask or skip" };
+  }
+  if (!hours) return { catchUp: { mode, graceHours: current.graceHours } };
+
+  const graceHours = parseInt(hours.replace(/h$/, ""), 10);
+  if (!/^\d+h?$/.test(hours) || graceHours < 1 || graceHours > 168) {
+    return { error: `Invalid grace window "${hours}" - use a number of hours from 1 to 168` };
+  }
+  return { catchUp: { mode, graceHours } };
+};
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const parseJobType = (value: string): JobType | null => {
+  return JOB_TYPES.find((type) => type.toLowerCase() === value.toLowerCase()) ?? null;
+};
+
+const parseWeekday = (value: string): number | null => {
+  const index = WEEKDAY_NAMES.indexOf(value.toLowerCase().slice(0, 3));
+  return index === -1 ? null : index;
+};
+
+/**
+ * Parse a schedule spec from admin command tokens, e.g.
+ * - `1,3 mon 09:00`
+ * - `last fri 15:30 Europe/London`
+ * - `biweekly wed 09:00` / `weekly sat 10:00`
+ * - `monthend 09:00`
+ * `today` is used to anchor week-interval rules to the next matching weekday.
+ */
+export const parseScheduleSpec = (
+  tokens: string[],
+  current: JobSchedule,
+  today: CalendarDay
+): { schedule: JobSchedule } | { error: string } => {
+  const [when, ...rest] = tokens;
+  if (!when) return { error: "Missing schedule rule" };
+
+  let rule: ScheduleRule;
+  let remaining: string[];
+
+  if (when.toLowerCase() === "monthend") {
+    rule = { kind: "lastDayOfMonth" };
+    remaining = rest;
+  } else {
+    const weekday = rest[0] ? parseWeekday(rest[0]) : null;
+    if (weekday === null) return { error: `Expected a weekday after "${when}" (e.g. mon, wed, fri)` };
+    remaining = rest.slice(1);
+
+    const everyWeeks = when.toLowerCase() === "weekly" ? 1 : when.toLowerCase() === "biweekly" ? 2 : null;
+    if (everyWeeks) {
+      const anchor = addDays(today, (weekday - getWeekday(today) + 7) % 7);
+      rule = { kind: "weekly", weekday, everyWeeks, anchor: toDateKey(anchor) };
+    } else {
+      const nth = when.split(",").map((n) => (n.toLowerCase() === "last" ? -1 : parseInt(n, 10)));
+      if (nth.some((n) => n !== -1 && (isNaN(n) || n < 1 || n > 5))) {
+        return { error: `Invalid week numbers "${when}" - use 1-5 or "last", comma-separated` };
+      }
+      rule = { kind: "nthWeekday", weekday, nth };
+    }
+  }
+
+  const [time, timezone] = remaining;
+  const timeMatch = time?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!timeMatch) return { error: "Expected a time as HH:MM" };
+  const hour = parseInt(timeMatch[1], 10);
+  const minute = parseInt(timeMatch[2], 10);
+  if (hour > 23 || minute > 59) return { error: `Invalid time "${time}"` };
+
+  if (timezone && !isValidTimezone(timezone)) return { error: `Unknown timezone "${timezone}"` };
+
+  return {
+    schedule: {
+      ...current,
+      enabled: true,
+      rule,
+      hour,
+      minute,
+      timezone: timezone || current.timezone,
+    },
+  };
+};
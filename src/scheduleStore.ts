@@ -0,0 +1,64 @@
+// Persist per-group schedule overrides (groups without overrides use the defaults)
+import { db } from "./db";
+import type { JobType } from "./dateCalculator";
+import type { CatchUpMode, JobSchedule, ScheduleRule } from "./schedule";
+import { getDefaultSchedules } from "./schedule";
+import { getGroupTimezone } from "./groupStore";
+
+export const getGroupSchedules = async (groupId: string): Promise<JobSchedule[]> => {
+  const stored = await db.jobSchedule.findMany({
+    where: { groupId },
+  });
+
+  const timezone = await getGroupTimezone(groupId);
+
+  return getDefaultSchedules(timezone).map((schedule) => {
+    const override = stored.find((s) => s.jobType === schedule.jobType);
+    if (!override) return schedule;
+    return {
+      jobType: schedule.jobType,
+      enabled: override.enabled,
+      rule: override.rule as unknown as ScheduleRule,
+      hour: override.hour,
+      minute: override.minute,
+      timezone: override.timezone,
+      catchUp: {
+        mode: (override.catchUpMode as CatchUpMode | null) ?? schedule.catchUp.mode,
+        graceHours: override.catchUpGraceHours ?? schedule.catchUp.graceHours,
+      },
+    };
+  });
+};
+
+export const saveGroupSchedule = async (groupId: string, schedule: JobSchedule): Promise<void> => {
+  const data = {
+    enabled: schedule.enabled,
+    rule: schedule.rule as object,
+    hour: schedule.hour,
+    minute: schedule.minute,
+    timezone: schedule.timezone,
+    catchUpMode: schedule.catchUp.mode,
+    catchUpGraceHours: schedule.catchUp.graceHours,
+  };
+  await db.jobSchedule.upsert({
+    where: { groupId_jobType: { groupId, jobType: schedule.jobType } },
+    update: data,
+    create: { groupId, jobType: schedule.jobType, ...data },
+  });
+  console.log(`[ScheduleStore] Saved ${schedule.jobType} schedule for ${groupId}`);
+};
+
+// Remove overrides so the group falls back to the default schedule
+export const resetGroupSchedules = async (groupId: string, jobType?: JobType): Promise<void> => {
+  await db.jobSchedule.deleteMany({
+    where: { groupId, ...(jobType ? { jobType } : {}) },
+  });
+};
+
+// Move every overridden job of a group to a new timezone (keeping its wall-clock time)
+export const setGroupSchedulesTimezone = async (groupId: string, timezone: string): Promise<void> => {
+  await db.jobSchedule.updateMany({
+    where: { groupId },
+    data: { timezone },
+  });
+};
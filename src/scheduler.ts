@@ -2,231 +2,198 @@
 import type { GroupChat } from "whatsapp-web.js";
 const { scheduleJob, RecurrenceRule } = require("node-schedule");
 
-import { BOT_CONFIG } from "./config";
+import { formatDate, getZonedDay } from "./utils";
+import { now } from "./clock";
+import { safelyGetChat } from "./client";
+import { queueMessage, onDelivered } from "./outbox";
+import type { OutboxEntry, QueueOptions } from "./outbox";
+import { isLeader } from "./leader";
+import { adminChatId } from "./config";
+import { getStoredGroups, saveSchedulerActive } from "./groupStore";
+import { getUsersWithActiveGoals, carryOverAllGoals } from "./goalStore";
+import { sendLeftoverGoalPrompts, clearGroupReviews } from "./goalReview";
 import {
-  formatDate,
-  isFirstOrThirdMonday,
-  isSecondOrFourthFriday,
-  isSecondOrFourthWednesday,
-  isSecondSaturday,
-  isLastDayOfMonth,
-  getNZDate,
-} from "./utils";
-import { retryScheduledTask } from "./client";
-import { getUsersWithActiveGoals } from "./goalStore";
-import {
-  schedulerActive,
+  getGroupState,
+  getActiveGroupStates,
   setSchedulerActive,
-  scheduledJobs,
-  botStatus,
   updateNextScheduledTasks,
-  setLastKickoff,
   clearScheduledJobs,
   setMissedJobsCache,
 } from "./state";
 import {
   recordJobFired,
   recordJobSkipped,
-  recordJobCompleted,
   recordJobFailed,
   updateHeartbeat,
   getSchedulerState,
   recordMissedJob,
   getMissedJobs,
+  recordCatchUpAction,
+  recordCatchUpPrompt,
+  recordJobMessage,
+  getRunAwaitingCatchUp,
 } from "./jobTracker";
+import type { JobRun } from "./jobTracker";
 import type { JobType } from "./dateCalculator";
-import {
-  getNextFirstOrThirdMonday,
-  getNextSecondOrFourthFriday,
-  getNextSecondOrFourthWednesday,
-  getNextSecondSaturday,
-  getNextMonthEnd,
-} from "./dateCalculator";
+import { getJobLabel, getPostTime, getScheduledDatesBetween } from "./dateCalculator";
+import type { JobSchedule } from "./schedule";
+import { getRuleWeekday, decideJobRun, decideCatchUp, DEFAULT_TIMEZONE } from "./schedule";
+import { getGroupSchedules } from "./scheduleStore";
+import { renderMessage } from "./templates";
+import { renderSprintReview } from "./sprintDigest";
+import { openSprint, setSprintKickoffMessage } from "./sprintStore";
 
 let heartbeatInterval: NodeJS.Timeout | null = null;
 
-export const setupScheduledMessages = async (initialGroupChat: GroupChat) => {
-  if (schedulerActive) {
-    clearScheduledJobs();
-  }
+// Message IDs are recorded when the outbox delivers a post, however late that is
+onDelivered("kickoff", async (hook, messageId) => {
+  if (!messageId) return;
+  await setSprintKickoffMessage(hook.sprintId as string, messageId);
+  if (hook.runId) await recordJobMessage(hook.runId as string, messageId);
+  console.log(`Tracking kickoff message: ${messageId}`);
+});
+
+onDelivered("jobRunMessage", async (hook, messageId) => {
+  if (messageId) await recordJobMessage(hook.runId as string, messageId);
+});
 
-  if (!BOT_CONFIG.TARGET_GROUP_ID) {
-    BOT_CONFIG.TARGET_GROUP_ID = initialGroupChat.id._serialized;
-    botStatus.targetGroup = initialGroupChat.id._serialized;
-    botStatus.targetGroupName = initialGroupChat.name;
-    console.log(`Set target group to: ${initialGroupChat.name} (${initialGroupChat.id._serialized})`);
+onDelivered("catchUpPrompt", async (hook, messageId) => {
+  if (messageId) await recordCatchUpPrompt(hook.runId as string, messageId);
+});
+
+// Queue a job's post - the outbox marks the run completed (or failed) once it's delivered,
+// and the run ID as idempotency key means a run never posts twice
+const queueJobPost = (groupId: string, runId: string, text: string) =>
+  queueMessage(groupId, text, { key: `job:${runId}`, jobRunId: runId });
+
+/**
+ * Queue a Sprint Kickoff post. The sprint is opened first so the post renders the new
+ * sprint number, and records the post as its kickoff message once it's delivered (as
+ * does the manual run, if given).
+ */
+export const queueKickoff = async (
+  groupId: string,
+  options: QueueOptions = {},
+  manualRunId?: string
+): Promise<OutboxEntry> => {
+  const { sprint, isNew } = await openSprint(groupId);
+  if (isNew) {
+    await carryOverAllGoals(groupId);
+    await clearGroupReviews(groupId);
   }
+  return queueMessage(groupId, await renderMessage(groupId, "monday"), {
+    ...options,
+    onDelivered: { type: "kickoff", sprintId: sprint.id, ...(manualRunId ? { runId: manualRunId } : {}) },
+  });
+};
+
+// What each job posts to the group
+const JOB_TASKS: Record<JobType, (groupId: string, runId: string) => Promise<void>> = {
+  monday: async (groupId, runId) => {
+    await queueKickoff(groupId, { key: `job:${runId}`, jobRunId: runId });
+  },
+  friday: async (groupId, runId) => {
+    // Ask members about their unfinished goals ahead of the review post
+    await sendLeftoverGoalPrompts(groupId);
+    await queueJobPost(groupId, runId, await renderSprintReview(groupId));
+  },
+  demo: async (groupId, runId) => {
+    await queueJobPost(groupId, runId, await renderMessage(groupId, "demo"));
+  },
+  checkIn: async (groupId, runId) => {
+    const usersWithGoals = await getUsersWithActiveGoals(groupId);
+    const msgText = await renderMessage(groupId, usersWithGoals.length === 0 ? "checkInNoGoals" : "checkIn");
+    await queueJobPost(groupId, runId, msgText);
+  },
+  monthEnd: async (groupId, runId) => {
+    await queueJobPost(groupId, runId, await renderMessage(groupId, "monthEnd"));
+  },
+};
+
+// Cron callback shared by every job - the schedule definition decides whether to post
+async function runScheduledJob(groupId: string, jobType: JobType): Promise<void> {
+  const schedule = getGroupState(groupId).schedules.find((s) => s.jobType === jobType);
+  if (!schedule || !schedule.enabled || !isLeader()) return;
+
+  const firedAt = now();
+  const today = getZonedDay(firedAt, schedule.timezone);
+  const decision = decideJobRun(schedule, today);
+  if (decision.action === "ignore") return;
+
+  const scheduledFor = getPostTime(schedule, today);
+  const runId = await recordJobFired(groupId, jobType, scheduledFor);
+  const label = getJobLabel(jobType);
 
   try {
-    // Bi-weekly Monday 9am NZT - Sprint kickoff
-    const mondayRule = new RecurrenceRule();
-    mondayRule.dayOfWeek = 1;
-    mondayRule.hour = 9;
-    mondayRule.minute = 0;
-    mondayRule.tz = "Pacific/Auckland";
-
-    scheduledJobs.monday = scheduleJob("Monday 9am", mondayRule, async () => {
-      const now = getNZDate();
-      const scheduledFor = new Date(now);
-      scheduledFor.setHours(9, 0, 0, 0);
-      const runId = await recordJobFired("monday", scheduledFor);
-      
-      try {
-        if (!isFirstOrThirdMonday(now)) {
-          await recordJobSkipped(runId, `Not 1st or 3rd Monday (day ${now.getDate()})`);
-          return;
-        }
-        console.log(`Executing Sprint Kickoff at ${formatDate(now)} (day ${now.getDate()})`);
-        const kickoffMsg = await retryScheduledTask(
-          "Sprint Kickoff",
-          "*Sprint Kickoff* 🚀\n\n👉 What are your main goals for the next 2 weeks?\n\nShare below and let's crush this sprint together! 💪",
-          BOT_CONFIG.TARGET_GROUP_ID
-        );
-        if (kickoffMsg) {
-          setLastKickoff(kickoffMsg.id._serialized, new Date());
-          console.log(`Tracking kickoff message: ${kickoffMsg.id._serialized}`);
-          await recordJobCompleted(runId, kickoffMsg.id._serialized);
-        } else {
-          await recordJobCompleted(runId);
-        }
-        updateNextScheduledTasks();
-      } catch (error) {
-        console.error("Error in Sprint Kickoff task:", error);
-        await recordJobFailed(runId, String(error));
-      }
-    });
+    if (decision.action === "skip") {
+      await recordJobSkipped(runId, decision.reason);
+      return;
+    }
+    console.log(`Executing ${label} at ${formatDate(firedAt, schedule.timezone)} (day ${today.day})`);
+    await JOB_TASKS[jobType](groupId, runId);
+    updateNextScheduledTasks(groupId);
+  } catch (error) {
+    console.error(`Error in ${label} task:`, error);
+    await recordJobFailed(runId, String(error));
+  }
+}
 
-    // Bi-weekly Friday 3:30pm NZT - Sprint review
-    const fridayRule = new RecurrenceRule();
-    fridayRule.dayOfWeek = 5;
-    fridayRule.hour = 15;
-    fridayRule.minute = 30;
-    fridayRule.tz = "Pacific/Auckland";
-
-    scheduledJobs.friday = scheduleJob("Friday 3:30pm", fridayRule, async () => {
-      const now = getNZDate();
-      const scheduledFor = new Date(now);
-      scheduledFor.setHours(15, 30, 0, 0);
-      const runId = await recordJobFired("friday", scheduledFor);
-      
-      try {
-        if (!isSecondOrFourthFriday(now)) {
-          await recordJobSkipped(runId, `Not 2nd or 4th Friday (day ${now.getDate()})`);
-          return;
-        }
-        console.log(`Executing Sprint Review at ${formatDate(now)} (day ${now.getDate()})`);
-        const msg = await retryScheduledTask(
-          "Sprint Review",
-          "*Sprint Review* 🔍\n\n👉 How did you do on your sprint goals?\n\nShare your wins, learnings, and let's celebrate our growth! 🎉",
-          BOT_CONFIG.TARGET_GROUP_ID
-        );
-        await recordJobCompleted(runId, msg?.id?._serialized);
-        updateNextScheduledTasks();
-      } catch (error) {
-        console.error("Error in Sprint Review task:", error);
-        await recordJobFailed(runId, String(error));
-      }
-    });
+// (Re)register a group's cron jobs from its schedule definitions
+export const scheduleGroupJobs = async (groupId: string) => {
+  const groupState = getGroupState(groupId);
 
-    // Demo day - second Saturday of month
-    const demoRule = new RecurrenceRule();
-    demoRule.dayOfWeek = 6;
-    demoRule.hour = 10;
-    demoRule.minute = 0;
-    demoRule.tz = "Pacific/Auckland";
-
-    scheduledJobs.demo = scheduleJob("Demo Day", demoRule, async () => {
-      const now = getNZDate();
-      const scheduledFor = new Date(now);
-      scheduledFor.setHours(10, 0, 0, 0);
-      const runId = await recordJobFired("demo", scheduledFor);
-      
-      try {
-        if (!isSecondSaturday(now)) {
-          await recordJobSkipped(runId, `Not second Saturday (day ${now.getDate()})`);
-          return;
-        }
-        console.log(`Executing Demo Day at ${formatDate(now)}`);
-        const msg = await retryScheduledTask(
-          "Demo Day",
-          "*Demo Day* 🎬\n\n👉 Share what you've been cooking up!\n\nThere is no specific format. Could be a short vid, link, screenshot or picture. 🏆",
-          BOT_CONFIG.TARGET_GROUP_ID
-        );
-        await recordJobCompleted(runId, msg?.id?._serialized);
-        updateNextScheduledTasks();
-      } catch (error) {
-        console.error("Error in Demo Day task:", error);
-        await recordJobFailed(runId, String(error));
-      }
-    });
+  // Always clear first so a restart never registers duplicate jobs
+  clearScheduledJobs(groupId);
+  groupState.schedules = await getGroupSchedules(groupId);
 
-    // Mid-sprint check-in
-    const checkInRule = new RecurrenceRule();
-    checkInRule.dayOfWeek = 3;
-    checkInRule.hour = 9;
-    checkInRule.minute = 0;
-    checkInRule.tz = "Pacific/Auckland";
-
-    scheduledJobs.checkIn = scheduleJob("Mid-sprint Check-in", checkInRule, async () => {
-      const now = getNZDate();
-      const scheduledFor = new Date(now);
-      scheduledFor.setHours(9, 0, 0, 0);
-      const runId = await recordJobFired("checkIn", scheduledFor);
-      
-      try {
-        if (!isSecondOrFourthWednesday(now)) {
-          await recordJobSkipped(runId, `Not 2nd or 4th Wednesday (day ${now.getDate()})`);
-          return;
-        }
-        console.log(`Executing Mid-sprint Check-in at ${formatDate(now)} (day ${now.getDate()})`);
-        const usersWithGoals = await getUsersWithActiveGoals();
-        const msgText =
-          usersWithGoals.length === 0
-            ? "*Mid-Sprint Check-in* 📊\n\nHow's everyone tracking on their goals? Drop an update below! 👇"
-            : "*Mid-Sprint Check-in* 📊\n\nWe're halfway through the sprint! How's everyone tracking?\n\n👉 Share a quick update on your progress 👇";
-        const msg = await retryScheduledTask("Mid-sprint Check-in", msgText, BOT_CONFIG.TARGET_GROUP_ID);
-        await recordJobCompleted(runId, msg?.id?._serialized);
-        updateNextScheduledTasks();
-      } catch (error) {
-        console.error("Error in Mid-sprint Check-in task:", error);
-        await recordJobFailed(runId, String(error));
-      }
-    });
+  for (const schedule of groupState.schedules) {
+    if (!schedule.enabled) continue;
 
-    // Month end
-    scheduledJobs.monthEnd = scheduleJob("0 9 * * *", async () => {
-      const now = getNZDate();
-      
-      if (!isLastDayOfMonth(now)) {
-        return;
-      }
-      
-      const scheduledFor = new Date(now);
-      scheduledFor.setHours(9, 0, 0, 0);
-      const runId = await recordJobFired("monthEnd", scheduledFor);
-      
-      try {
-        console.log(`Executing month-end task at ${formatDate(now)}`);
-        const msg = await retryScheduledTask(
-          "Monthly celebration",
-          "*Monthly Celebration* 🎊\n\nAs we close out the month, take a moment to reflect on your accomplishments!\n\nBe proud of what you've achieved ✨",
-          BOT_CONFIG.TARGET_GROUP_ID
-        );
-        await recordJobCompleted(runId, msg?.id?._serialized);
-        updateNextScheduledTasks();
-      } catch (error) {
-        console.error("Error in month-end task:", error);
-        await recordJobFailed(runId, String(error));
-      }
-    });
+    const rule = new RecurrenceRule();
+    const weekday = getRuleWeekday(schedule.rule);
+    if (weekday !== null) {
+      rule.dayOfWeek = weekday;
+    }
+    rule.hour = schedule.hour;
+    rule.minute = schedule.minute;
+    rule.tz = schedule.timezone;
+
+    groupState.scheduledJobs[schedule.jobType] = scheduleJob(
+      `${groupId} ${getJobLabel(schedule.jobType)}`,
+      rule,
+      () => runScheduledJob(groupId, schedule.jobType)
+    );
+  }
+
+  updateNextScheduledTasks(groupId);
+};
+
+// Pick up schedule changes: re-register jobs if running, otherwise just refresh the display
+export const applyScheduleChange = async (groupId: string) => {
+  const groupState = getGroupState(groupId);
+  if (groupState.schedulerActive) {
+    await scheduleGroupJobs(groupId);
+  } else {
+    groupState.schedules = await getGroupSchedules(groupId);
+    updateNextScheduledTasks(groupId);
+  }
+};
+
+export const setupScheduledMessages = async (groupChat: GroupChat) => {
+  const groupId = groupChat.id._serialized;
+  const groupState = getGroupState(groupId, groupChat.name);
+
+  try {
+    await scheduleGroupJobs(groupId);
+
+    setSchedulerActive(groupId, true);
+    updateNextScheduledTasks(groupId);
+    await saveSchedulerActive(groupId, true, groupChat.name);
 
     // Start heartbeat interval (every 60 seconds)
     startHeartbeat();
 
-    setSchedulerActive(true);
-    botStatus.isActive = true;
-    botStatus.scheduledTasksCount = Object.keys(scheduledJobs).length;
-    updateNextScheduledTasks();
+    console.log(`[Scheduler] Started for ${groupState.groupName} (${groupId})`);
     return true;
   } catch (error) {
     console.error("Error setting up scheduled messages:", error);
@@ -234,28 +201,77 @@ export const setupScheduledMessages = async (initialGroupChat: GroupChat) => {
   }
 };
 
-export const stopScheduler = () => {
-  clearScheduledJobs();
+export const stopScheduler = async (groupId: string) => {
+  clearScheduledJobs(groupId);
+  setSchedulerActive(groupId, false);
+  getGroupState(groupId).nextScheduledTasks = [];
+  await saveSchedulerActive(groupId, false);
+
+  // Keep the heartbeat running while any other group is still scheduled
+  if (getActiveGroupStates().length === 0) {
+    stopHeartbeat();
+  }
+};
+
+// Stop running jobs on this instance after losing leadership. Groups stay marked active
+// so whichever instance leads next restores them.
+export const suspendSchedulers = () => {
+  for (const state of getActiveGroupStates()) {
+    clearScheduledJobs(state.groupId);
+  }
   stopHeartbeat();
-  setSchedulerActive(false);
-  botStatus.isActive = false;
-  botStatus.scheduledTasksCount = 0;
-  botStatus.nextScheduledTasks = [];
+  console.log("[Scheduler] Suspended - another instance is leading");
+};
+
+// Load persisted groups into memory and restart schedulers that were active before shutdown.
+// Group state is reloaded in full, as another instance may have changed it while this one
+// was on standby (e.g. stopped a scheduler or resolved a missed job).
+export const restoreSchedulers = async (): Promise<void> => {
+  const groups = await getStoredGroups();
+  for (const group of groups) {
+    const groupState = getGroupState(group.id, group.name);
+    groupState.timezone = group.timezone || DEFAULT_TIMEZONE;
+    groupState.schedules = await getGroupSchedules(group.id);
+    setMissedJobsCache(group.id, await getMissedJobs(group.id));
+    updateNextScheduledTasks(group.id);
+    // Marked active again below once its jobs are scheduled
+    clearScheduledJobs(group.id);
+    setSchedulerActive(group.id, false);
+    groupState.nextScheduledTasks = [];
+  }
+
+  const activeGroups = groups.filter((g) => g.schedulerActive);
+  for (const group of activeGroups) {
+    const chat = await safelyGetChat(group.id);
+    if (!chat) {
+      console.error(`[Scheduler] Could not restore scheduler for ${group.name} (${group.id}) - chat unavailable`);
+      continue;
+    }
+    const success = await setupScheduledMessages(chat as GroupChat);
+    console.log(`[Scheduler] Restored scheduler for ${group.name}: ${success ? "ok" : "failed"}`);
+  }
 };
 
+// One shared interval keeps the heartbeat of every active group fresh
+async function updateActiveHeartbeats(): Promise<void> {
+  for (const state of getActiveGroupStates()) {
+    await updateHeartbeat(state.groupId);
+  }
+}
+
 function startHeartbeat() {
   if (heartbeatInterval) {
     clearInterval(heartbeatInterval);
   }
   heartbeatInterval = setInterval(async () => {
     try {
-      await updateHeartbeat();
+      await updateActiveHeartbeats();
     } catch (error) {
       console.error("[Scheduler] Heartbeat error:", error);
     }
   }, 60000);
   // Also update immediately
-  updateHeartbeat().catch((e) => console.error("[Scheduler] Initial heartbeat error:", e));
+  updateActiveHeartbeats().catch((e) => console.error("[Scheduler] Initial heartbeat error:", e));
 }
 
 function stopHeartbeat() {
@@ -265,19 +281,19 @@ function stopHeartbeat() {
   }
 }
 
-export async function checkMissedJobs(): Promise<void> {
-  console.log("[Scheduler] Checking for missed jobs...");
+export async function checkMissedJobs(groupId: string): Promise<void> {
+  console.log(`[Scheduler] Checking for missed jobs in ${groupId}...`);
   
-  const state = await getSchedulerState();
+  const state = await getSchedulerState(groupId);
   if (!state) {
     console.log("[Scheduler] No previous scheduler state found - first run");
-    await updateHeartbeat();
+    await updateHeartbeat(groupId);
     return;
   }
   
-  const now = getNZDate();
+  const checkedAt = now();
   const lastHeartbeat = state.lastHeartbeat;
-  const downtime = now.getTime() - lastHeartbeat.getTime();
+  const downtime = checkedAt.getTime() - lastHeartbeat.getTime();
   const downtimeHours = Math.round(downtime / (1000 * 60 * 60) * 10) / 10;
   
   if (downtime < 60000) {
@@ -287,47 +303,24 @@ export async function checkMissedJobs(): Promise<void> {
   
   console.log(`[Scheduler] Bot was offline for ${downtimeHours} hours (since ${lastHeartbeat.toISOString()})`);
   
-  // Check each job type for missed posts during downtime
-  const jobCheckers: Array<{ type: JobType; getNext: (d: Date) => Date; checker: (d: Date) => boolean }> = [
-    { type: "monday", getNext: getNextFirstOrThirdMonday, checker: isFirstOrThirdMonday },
-    { type: "friday", getNext: getNextSecondOrFourthFriday, checker: isSecondOrFourthFriday },
-    { type: "demo", getNext: getNextSecondSaturday, checker: isSecondSaturday },
-    { type: "checkIn", getNext: getNextSecondOrFourthWednesday, checker: isSecondOrFourthWednesday },
-  ];
-  
-  for (const { type, getNext, checker } of jobCheckers) {
-    // Find scheduled dates between lastHeartbeat and now
-    let candidate = new Date(lastHeartbeat);
-    candidate.setHours(0, 0, 0, 0);
-    
-    while (candidate < now) {
-      if (checker(candidate)) {
-        const scheduledTime = getNext(candidate);
-        if (scheduledTime > lastHeartbeat && scheduledTime < now) {
-          await recordMissedJob(type, scheduledTime);
-        }
-      }
-      candidate.setDate(candidate.getDate() + 1);
-    }
-  }
-  
-  // Check for month-end during downtime
-  let monthEndCandidate = new Date(lastHeartbeat);
-  monthEndCandidate.setHours(0, 0, 0, 0);
-  while (monthEndCandidate < now) {
-    if (isLastDayOfMonth(monthEndCandidate)) {
-      const scheduledTime = new Date(monthEndCandidate);
-      scheduledTime.setHours(9, 0, 0, 0);
-      if (scheduledTime > lastHeartbeat && scheduledTime < now) {
-        await recordMissedJob("monthEnd", scheduledTime);
-      }
+  // Check each job's schedule for missed posts during downtime
+  const schedules = await getGroupSchedules(groupId);
+  getGroupState(groupId).schedules = schedules;
+
+  for (const schedule of schedules) {
+    if (!schedule.enabled) continue;
+    const scheduledTimes = getScheduledDatesBetween(schedule, lastHeartbeat, checkedAt);
+    for (const scheduledTime of scheduledTimes) {
+      await recordMissedJob(groupId, schedule.jobType, scheduledTime);
     }
-    monthEndCandidate.setDate(monthEndCandidate.getDate() + 1);
   }
+
+  await catchUpMissedJobs(groupId, schedules);
   
   // Update missed jobs cache
-  const missedJobs = await getMissedJobs();
-  setMissedJobsCache(missedJobs);
+  const missedJobs = await getMissedJobs(groupId);
+  setMissedJobsCache(groupId, missedJobs);
+  updateNextScheduledTasks(groupId);
   
   if (missedJobs.length > 0) {
     console.log(`[Scheduler] Found ${missedJobs.length} missed job(s)`);
@@ -338,5 +331,88 @@ export async function checkMissedJobs(): Promise<void> {
     console.log("[Scheduler] No missed jobs found");
   }
   
-  await updateHeartbeat();
+  await updateHeartbeat(groupId);
+}
+
+// Post a run after its time - a caught-up missed run or an admin retry of a failed one
+export async function postJobRunLate(run: JobRun): Promise<void> {
+  const jobType = run.jobType as JobType;
+  try {
+    console.log(`[Scheduler] Posting ${getJobLabel(jobType)} scheduled for ${run.scheduledFor.toISOString()}`);
+    await JOB_TASKS[jobType](run.groupId, run.id);
+  } catch (error) {
+    console.error(`Error posting ${getJobLabel(jobType)} late:`, error);
+    await recordJobFailed(run.id, String(error));
+  }
+  updateNextScheduledTasks(run.groupId);
+}
+
+// DM the admin about a missed run - reacting to the prompt posts or skips it
+async function askAdminToCatchUp(run: JobRun, schedule: JobSchedule): Promise<void> {
+  if (!adminChatId) {
+    console.log(`[Scheduler] No ADMIN_CHAT_ID configured - leaving missed ${run.jobType} for a manual trigger`);
+    return;
+  }
+
+  const groupState = getGroupState(run.groupId);
+  const hoursLate = Math.round((now().getTime() - run.scheduledFor.getTime()) / (1000 * 60 * 60));
+  await recordCatchUpAction(run.id, "asked");
+  // Reactions can be matched to the prompt once it's delivered and its message ID recorded
+  await queueMessage(
+    adminChatId,
+    `⏰ *Missed ${getJobLabel(schedule.jobType)}* - ${groupState.groupName || run.groupId}\n\n` +
+      `It was due ${formatDate(run.scheduledFor, schedule.timezone)} (${hoursLate}h ago) while the bot was offline.\n\n` +
+      `_React ✅ to post it now or ❌ to skip it._`,
+    { key: `catchup:${run.id}`, onDelivered: { type: "catchUpPrompt", runId: run.id } }
+  );
+}
+
+// Apply each job's catch-up policy to the missed runs nobody has handled yet.
+// Only the latest run of a job is posted or offered - older ones stay missed.
+async function catchUpMissedJobs(groupId: string, schedules: JobSchedule[]): Promise<void> {
+  const missedJobs = await getMissedJobs(groupId);
+  const checkedAt = now();
+
+  for (const schedule of schedules) {
+    if (!schedule.enabled) continue;
+    const runs = missedJobs.filter((job) => job.jobType === schedule.jobType && !job.catchUpAction);
+
+    for (const [index, run] of runs.entries()) {
+      const decision = decideCatchUp(schedule, run.scheduledFor, checkedAt);
+      const isLatest = index === runs.length - 1;
+
+      try {
+        if (decision.action === "skip") {
+          await recordCatchUpAction(run.id, "skipped");
+          await recordJobSkipped(run.id, decision.reason);
+        } else if (decision.action === "post" && isLatest) {
+          await recordCatchUpAction(run.id, "auto");
+          await postJobRunLate(run);
+        } else if (decision.action === "ask" && isLatest) {
+          await askAdminToCatchUp(run, schedule);
+        }
+      } catch (error) {
+        console.error(`[Scheduler] Catch-up failed for ${run.jobType} (${groupId}):`, error);
+      }
+    }
+  }
+}
+
+// Answer an admin catch-up prompt. Returns the run it was about, or null if the
+// message isn't an unanswered prompt.
+export async function resolveCatchUpPrompt(promptMessageId: string, confirm: boolean): Promise<JobRun | null> {
+  const run = await getRunAwaitingCatchUp(promptMessageId);
+  if (!run) return null;
+
+  if (confirm) {
+    await recordCatchUpAction(run.id, "confirmed");
+    await postJobRunLate(run);
+  } else {
+    await recordCatchUpAction(run.id, "declined");
+    await recordJobSkipped(run.id, "Catch-up declined by admin");
+  }
+
+  setMissedJobsCache(run.groupId, await getMissedJobs(run.groupId));
+  updateNextScheduledTasks(run.groupId);
+  return run;
 }
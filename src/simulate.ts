@@ -0,0 +1,150 @@
+/**
+ * Replay the scheduler over a date range without WhatsApp - prints every post the
+ * bot would make, every run it would skip, and every sprint rollover.
+ *
+ *   bun run simulate [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--group <id>] [--sprint N] [--full]
+ *
+ * Without --group the default schedules and templates are used and no database is needed.
+ * With --group the group's saved schedules, templates and current sprint are loaded first.
+ */
+import type { JobSchedule } from "./schedule";
+import { getDefaultSchedules, decideJobRun, firesOn, describeSchedule, DEFAULT_TIMEZONE } from "./schedule";
+import type { TemplateKey } from "./templates";
+import { DEFAULT_TEMPLATES, renderTemplate, getDaysLeftInSprint } from "./templates";
+import { getJobLabel, getPostTime } from "./dateCalculator";
+import { setClock } from "./clock";
+import type { CalendarDay } from "./utils";
+import { addDays, daysBetween, getToday, getZonedParts, parseDateKey } from "./utils";
+import { getGroupSchedules } from "./scheduleStore";
+import { getTemplateOverrides } from "./templateStore";
+import { getCurrentSprint } from "./sprintStore";
+import { getStoredGroups } from "./groupStore";
+
+interface SimulatedEvent {
+  day: CalendarDay; // in the schedule's timezone
+  instant: Date;
+  schedule: JobSchedule;
+}
+
+const DEFAULT_DAYS = 30;
+
+const parseArgs = (args: string[]) => {
+  const value = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index === -1 ? undefined : args[index + 1];
+  };
+  return {
+    from: value("--from"),
+    to: value("--to"),
+    groupId: value("--group"),
+    sprint: value("--sprint"),
+    full: args.includes("--full"),
+  };
+};
+
+const parseDay = (key: string): CalendarDay => {
+  const day = parseDateKey(key);
+  if (!day) throw new Error(`Invalid date "${key}" - use YYYY-MM-DD`);
+  return day;
+};
+
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatDay = (day: CalendarDay): string => `${day.day} ${MONTH_NAMES[day.month - 1]} ${day.year}`;
+
+// Wall-clock time of an instant in the schedule's timezone
+const formatWallTime = (instant: Date, timezone: string): string => {
+  const parts = getZonedParts(instant, timezone);
+  const time = `${String(parts.hour).padStart(2, "0")}:${String(parts.minute).padStart(2, "0")}`;
+  return `${WEEKDAY_NAMES[parts.weekday]} ${formatDay(parts)} ${time}`;
+};
+
+// Every trigger of every enabled schedule between the two calendar days (inclusive)
+const collectEvents = (schedules: JobSchedule[], from: CalendarDay, to: CalendarDay): SimulatedEvent[] => {
+  const events: SimulatedEvent[] = [];
+  for (const schedule of schedules) {
+    if (!schedule.enabled) continue;
+    for (let day = from; daysBetween(day, to) >= 0; day = addDays(day, 1)) {
+      if (!firesOn(schedule, day)) continue;
+      events.push({ day, instant: getPostTime(schedule, day), schedule });
+    }
+  }
+  return events.sort((a, b) => a.instant.getTime() - b.instant.getTime());
+};
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2));
+
+  let schedules = getDefaultSchedules();
+  let templates: Partial<Record<TemplateKey, string>> = {};
+  let sprintNumber = args.sprint ? parseInt(args.sprint, 10) : 1;
+  let groupName = "the club";
+
+  if (args.groupId) {
+    schedules = await getGroupSchedules(args.groupId);
+    templates = await getTemplateOverrides(args.groupId);
+    if (!args.sprint) sprintNumber = (await getCurrentSprint(args.groupId))?.number ?? 1;
+    groupName = (await getStoredGroups()).find((g) => g.id === args.groupId)?.name || groupName;
+  }
+
+  const timezone = schedules.find((s) => s.enabled)?.timezone ?? DEFAULT_TIMEZONE;
+  const from = args.from ? parseDay(args.from) : getToday(timezone);
+  const to = args.to ? parseDay(args.to) : addDays(from, DEFAULT_DAYS);
+
+  console.log(`Simulating ${args.groupId ? groupName : "default schedules"} from ${formatDay(from)} to ${formatDay(to)}\n`);
+  schedules.forEach((s) => console.log(`  ${getJobLabel(s.jobType).padEnd(20)} ${describeSchedule(s)}`));
+  console.log(`\nStarting in sprint #${sprintNumber}\n`);
+
+  const counts = { post: 0, skip: 0, rollover: 0 };
+
+  for (const event of collectEvents(schedules, from, to)) {
+    // Code that reads the clock (e.g. days left in the sprint) sees the simulated time
+    setClock(() => event.instant);
+
+    const { schedule, day, instant } = event;
+    const label = getJobLabel(schedule.jobType);
+    const when = `${formatWallTime(instant, schedule.timezone)} (${instant.toISOString().slice(0, 16).replace("T", " ")} UTC)`;
+    const decision = decideJobRun(schedule, day);
+
+    if (decision.action === "ignore") continue;
+    if (decision.action === "skip") {
+      counts.skip++;
+      console.log(`${when}  SKIP  ${label} - ${decision.reason}`);
+      continue;
+    }
+
+    if (schedule.jobType === "monday") {
+      counts.rollover++;
+      sprintNumber++;
+      console.log(`${when}  SPRINT #${sprintNumber - 1} → #${sprintNumber} (unfinished goals carry over)`);
+    }
+
+    // Check-ins assume members have goals (the checkInNoGoals variant depends on live data)
+    const body = templates[schedule.jobType] ?? DEFAULT_TEMPLATES[schedule.jobType];
+    const text = renderTemplate(body, {
+      sprintNumber,
+      activeUsers: "?",
+      daysLeft: getDaysLeftInSprint(schedules),
+      groupName,
+    });
+
+    counts.post++;
+    console.log(`${when}  POST  ${label}${args.full ? "" : ` - ${text.split("\n")[0]}`}`);
+    if (schedule.jobType === "friday") {
+      // Both depend on live goals, so only the template is shown
+      console.log("      (also DMs members their unfinished goals, and the post ends with the sprint digest)");
+    }
+    if (args.full) {
+      console.log(text.replace(/^/gm, "      ") + "\n");
+    }
+  }
+
+  console.log(`\n${counts.post} post(s), ${counts.skip} skipped run(s), ${counts.rollover} sprint rollover(s)`);
+  process.exit(0);
+};
+
+main().catch((error) => {
+  console.error("Simulation failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,90 @@
+// Sprint Review digest - the current sprint's numbers and completed-goal highlights, posted
+// under the review template. The closing line is AI-written when an LLM is available.
+import { sprintDigestSummaries } from "./config";
+import { getSprintGoalCounts, getSprintSummary, getSprintUserIds } from "./goalStore";
+import { getCurrentSprint } from "./sprintStore";
+import { getMemberMap, memberName } from "./memberStore";
+import { isLLMReady, generateSprintSummary } from "./llm";
+import { renderMessage } from "./templates";
+
+const MAX_HIGHLIGHTS = 5;
+
+export interface SprintDigest {
+  sprintNumber: number;
+  goalsSet: number;
+  completed: number;
+  carryingOver: number; // still open - carried into the next sprint at its kickoff
+  activeMembers: number;
+  highlights: { name: string; text: string }[];
+}
+
+// Numbers and highlights for the group's current sprint, or null before the first kickoff
+export const buildSprintDigest = async (groupId: string): Promise<SprintDigest | null> => {
+  const sprint = await getCurrentSprint(groupId);
+  if (!sprint) return null;
+
+  const [counts, userIds] = await Promise.all([
+    getSprintGoalCounts(groupId, sprint.id),
+    getSprintUserIds(groupId, sprint.id),
+  ]);
+  const [summaries, members] = await Promise.all([
+    Promise.all(userIds.map((userId) => getSprintSummary(groupId, userId, sprint.id))),
+    getMemberMap(groupId, userIds),
+  ]);
+
+  // One highlight per member before anyone gets a second, latest completions first.
+  // Members who opted out of tracking or of the leaderboard count towards the numbers but aren't named.
+  const highlights = summaries
+    .flatMap((summary, i) => {
+      const member = members.get(userIds[i]);
+      if (member?.trackingOptIn === false || member?.leaderboardOptIn === false) return [];
+      return summary.completed
+        .sort((a, b) => (b.completedAt ?? "").localeCompare(a.completedAt ?? ""))
+        .map((goal, rank) => ({ rank, completedAt: goal.completedAt ?? "", name: memberName(member, userIds[i]), text: goal.text }));
+    })
+    .sort((a, b) => a.rank - b.rank || b.completedAt.localeCompare(a.completedAt))
+    .slice(0, MAX_HIGHLIGHTS)
+    .map(({ name, text }) => ({ name, text }));
+
+  return {
+    sprintNumber: sprint.number,
+    goalsSet: counts.goals,
+    completed: counts.completed,
+    carryingOver: summaries.reduce((count, s) => count + s.active.length + s.carriedOver.length, 0),
+    activeMembers: userIds.length,
+    highlights,
+  };
+};
+
+// Closing line for when there's no LLM (or it gave nothing usable)
+export const fallbackSummary = (digest: SprintDigest): string => {
+  if (digest.completed === 0) return "No goals ticked off yet - there's still time to share a win! 💪";
+  const rate = Math.round((digest.completed / digest.goalsSet) * 100);
+  if (rate >= 70) return `${rate}% of goals done - what a sprint! 🔥`;
+  if (rate >= 40) return `${rate}% of goals done - solid progress, keep it going! 👍`;
+  return `${rate}% of goals done - every step counts. 💪`;
+};
+
+export const formatDigest = (digest: SprintDigest, summary: string): string => {
+  const highlights =
+    digest.highlights.length > 0
+      ? `\n\n*🏆 Highlights*\n${digest.highlights.map((h) => `• *${h.name}*: ${h.text}`).join("\n")}`
+      : "";
+  return (
+    `*📊 Sprint ${digest.sprintNumber} in numbers*\n` +
+    `🎯 Goals set: ${digest.goalsSet}\n` +
+    `✅ Completed: ${digest.completed}\n` +
+    `⏭️ Still open: ${digest.carryingOver} _(carried over at the next kickoff)_\n` +
+    `👥 Active members: ${digest.activeMembers}` +
+    `${highlights}\n\n${summary}`
+  );
+};
+
+// The Sprint Review post: the group's review template, then the digest when the sprint has goals
+export const renderSprintReview = async (groupId: string): Promise<string> => {
+  const [template, digest] = await Promise.all([renderMessage(groupId, "friday"), buildSprintDigest(groupId)]);
+  if (!digest || digest.goalsSet === 0) return template;
+
+  const summary = sprintDigestSummaries && isLLMReady("digest") ? await generateSprintSummary(digest) : null;
+  return `${template}\n\n${formatDigest(digest, summary ?? fallbackSummary(digest))}`;
+};
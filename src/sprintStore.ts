@@ -0,0 +1,148 @@
+// Sprint tracking - each kickoff opens a new sprint for its group
+import { db } from "./db";
+import type { Page } from "./db";
+import type { Sprint as PrismaSprint } from "@prisma/client";
+import { KICKOFF_WINDOW_HOURS } from "./config";
+import { now } from "./clock";
+
+export interface Sprint {
+  id: string;
+  groupId: string;
+  number: number;
+  startDate: Date;
+  endDate: Date | null;
+  kickoffMessageId: string | null;
+}
+
+const toSprint = (s: PrismaSprint): Sprint => ({
+  id: s.id,
+  groupId: s.groupId,
+  number: s.number,
+  startDate: s.startDate,
+  endDate: s.endDate,
+  kickoffMessageId: s.kickoffMessageId,
+});
+
+// Get the group's open (most recent) sprint, if any
+export const getCurrentSprint = async (groupId: string): Promise<Sprint | null> => {
+  const sprint = await db.sprint.findFirst({
+    where: { groupId },
+    orderBy: { number: "desc" },
+  });
+  return sprint ? toSprint(sprint) : null;
+};
+
+// Get the current sprint, opening a first one if the group has never had a kickoff
+export const ensureCurrentSprint = async (groupId: string): Promise<Sprint> => {
+  const current = await getCurrentSprint(groupId);
+  if (current) return current;
+
+  const created = await db.sprint.create({
+    data: { groupId, number: 1, startDate: now() },
+  });
+  console.log(`[Sprint] Opened first sprint for ${groupId}`);
+  return toSprint(created);
+};
+
+/**
+ * Open a new sprint for a kickoff. A repeated kickoff within the kickoff window of the
+ * current sprint's start (e.g. a manual !bot monday after the scheduled one, or a retry
+ * while the first post is still undelivered) reuses that sprint.
+ */
+export const openSprint = async (groupId: string): Promise<{ sprint: Sprint; isNew: boolean }> => {
+  const openedAt = now();
+  const current = await getCurrentSprint(groupId);
+
+  if (current && openedAt.getTime() - current.startDate.getTime() < KICKOFF_WINDOW_HOURS * 60 * 60 * 1000) {
+    return { sprint: current, isNew: false };
+  }
+
+  const created = await db.$transaction(async (tx) => {
+    if (current) {
+      await tx.sprint.update({
+        where: { id: current.id },
+        data: { endDate: openedAt },
+      });
+    }
+    return tx.sprint.create({
+      data: { groupId, number: (current?.number ?? 0) + 1, startDate: openedAt },
+    });
+  });
+
+  console.log(`[Sprint] Opened sprint #${created.number} for ${groupId}`);
+  return { sprint: toSprint(created), isNew: true };
+};
+
+export const setSprintKickoffMessage = async (sprintId: string, messageId: string): Promise<void> => {
+  await db.sprint.update({
+    where: { id: sprintId },
+    data: { kickoffMessageId: messageId },
+  });
+};
+
+// Claim a sprint's leftover goal review round. Returns false if it's already been sent, so
+// retried and manual Friday posts don't DM members again.
+export const claimSprintReview = async (sprintId: string): Promise<boolean> => {
+  const { count } = await db.sprint.updateMany({
+    where: { id: sprintId, reviewSentAt: null },
+    data: { reviewSentAt: now() },
+  });
+  return count > 0;
+};
+
+// Most recent sprints for a group, newest first
+export const getRecentSprints = async (groupId: string, count: number): Promise<Sprint[]> => {
+  const sprints = await db.sprint.findMany({
+    where: { groupId },
+    orderBy: { number: "desc" },
+    take: count,
+  });
+  return sprints.map(toSprint);
+};
+
+// Sprints of one group (or every group), newest first
+export const listSprints = async (groupId: string | undefined, page: Page): Promise<{ sprints: Sprint[]; total: number }> => {
+  const where = groupId ? { groupId } : {};
+  const [sprints, total] = await Promise.all([
+    db.sprint.findMany({ where, orderBy: [{ startDate: "desc" }, { id: "asc" }], ...page }),
+    db.sprint.count({ where }),
+  ]);
+  return { sprints: sprints.map(toSprint), total };
+};
+
+// Current sprint of every group (or of one group)
+export const getCurrentSprints = async (groupId?: string): Promise<Sprint[]> => {
+  const sprints = await db.sprint.findMany({
+    where: { ...(groupId ? { groupId } : {}), endDate: null },
+  });
+  return sprints.map(toSprint);
+};
+
+// Assign sprints recorded before multi-group support to a group. If the group has already
+// opened sprints of its own, every sprint is renumbered in start order so numbers stay unique,
+// and each ends when the next starts so only the newest is left open.
+export const claimUnscopedSprints = async (groupId: string): Promise<number> => {
+  return db.$transaction(async (tx) => {
+    const unscoped = await tx.sprint.findMany({ where: { groupId: "" } });
+    if (unscoped.length === 0) return 0;
+
+    const scoped = await tx.sprint.findMany({ where: { groupId } });
+    if (scoped.length === 0) {
+      const result = await tx.sprint.updateMany({ where: { groupId: "" }, data: { groupId } });
+      return result.count;
+    }
+
+    // Park the group's own sprints on negative numbers, clear of the (group, number) index
+    await tx.sprint.updateMany({ where: { groupId }, data: { number: { multiply: -1 } } });
+    const sprints = [...unscoped, ...scoped].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+    for (const [index, sprint] of sprints.entries()) {
+      const next = sprints[index + 1];
+      await tx.sprint.update({
+        where: { id: sprint.id },
+        data: { groupId, number: index + 1, ...(next && { endDate: next.startDate }) },
+      });
+    }
+    console.log(`[Sprint] Renumbered ${sprints.length} sprints for ${groupId} after claiming ${unscoped.length}`);
+    return unscoped.length;
+  });
+};
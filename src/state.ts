@@ -1,48 +1,89 @@
 // Global bot state management
 import { getActualNextPostDates, getJobLabel } from "./dateCalculator";
 import type { JobRun } from "./jobTracker";
+import type { JobSchedule } from "./schedule";
+import { getDefaultSchedules, DEFAULT_TIMEZONE } from "./schedule";
+
+// Per-group state - each group chat runs its own independent club
+export interface GroupState {
+  groupId: string;
+  groupName: string;
+  schedulerActive: boolean;
+  timezone: string;
+  scheduledJobs: Record<string, any>;
+  schedules: JobSchedule[];
+  // Missed jobs cache (updated on startup and after missed job detection)
+  missedJobsCache: JobRun[];
+  nextScheduledTasks: string[];
+  missedJobsDisplay: string[];
+}
+
+const groupStates = new Map<string, GroupState>();
 
-// Scheduler state
-export let schedulerActive = false;
-export const scheduledJobs: Record<string, any> = {};
 export let botStartTime: Date | null = null;
 
-// Kickoff tracking
-export let lastKickoffMessageId: string | null = null;
-export let lastKickoffTime: Date | null = null;
+export const hasGroupState = (groupId: string): boolean => groupStates.has(groupId);
+
+// Get state for a group, creating it on first access
+export const getGroupState = (groupId: string, groupName?: string): GroupState => {
+  let state = groupStates.get(groupId);
+  if (!state) {
+    state = {
+      groupId,
+      groupName: groupName || "",
+      schedulerActive: false,
+      timezone: DEFAULT_TIMEZONE,
+      scheduledJobs: {},
+      schedules: getDefaultSchedules(),
+      missedJobsCache: [],
+      nextScheduledTasks: [],
+      missedJobsDisplay: [],
+    };
+    groupStates.set(groupId, state);
+  } else if (groupName && state.groupName !== groupName) {
+    state.groupName = groupName;
+  }
+  return state;
+};
+
+export const getAllGroupStates = (): GroupState[] => Array.from(groupStates.values());
+
+export const getActiveGroupStates = (): GroupState[] => getAllGroupStates().filter((s) => s.schedulerActive);
 
-// Missed jobs cache (updated on startup and after missed job detection)
-export let missedJobsCache: JobRun[] = [];
+// Resolve a group from an admin argument: list number (from !bot groups, optionally
+// written as #2) or chat ID. With no argument, falls back to the only known group.
+export const findGroupState = (ref?: string): GroupState | null => {
+  const groups = getAllGroupStates();
+  if (!ref) {
+    return groups.length === 1 ? groups[0] : null;
+  }
+  if (/^#?\d+$/.test(ref)) {
+    return groups[parseInt(ref.replace("#", ""), 10) - 1] ?? null;
+  }
+  return groupStates.get(ref) ?? null;
+};
 
 // Setters
-export const setSchedulerActive = (active: boolean) => {
-  schedulerActive = active;
+export const setSchedulerActive = (groupId: string, active: boolean) => {
+  getGroupState(groupId).schedulerActive = active;
 };
 
 export const setBotStartTime = (time: Date | null) => {
   botStartTime = time;
 };
 
-export const setLastKickoff = (messageId: string | null, time: Date | null) => {
-  lastKickoffMessageId = messageId;
-  lastKickoffTime = time;
-};
-
-export const setMissedJobsCache = (jobs: JobRun[]) => {
-  missedJobsCache = jobs;
+export const setMissedJobsCache = (groupId: string, jobs: JobRun[]) => {
+  getGroupState(groupId).missedJobsCache = jobs;
 };
 
-export const clearScheduledJobs = () => {
+export const clearScheduledJobs = (groupId: string) => {
+  const { scheduledJobs } = getGroupState(groupId);
   Object.values(scheduledJobs).forEach((job) => job.cancel());
   Object.keys(scheduledJobs).forEach((key) => delete scheduledJobs[key]);
 };
 
 // Bot status object
 export const botStatus = {
-  isActive: false,
-  targetGroup: "",
-  targetGroupName: "",
-  scheduledTasksCount: 0,
   uptime: function () {
     if (!botStartTime) return "0 minutes";
     const diffMs = Date.now() - botStartTime.getTime();
@@ -51,17 +92,18 @@ export const botStatus = {
     const diffMins = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
     return `${diffDays} days, ${diffHrs} hours, ${diffMins} minutes`;
   },
-  nextScheduledTasks: [] as string[],
-  missedJobsDisplay: [] as string[],
+  scheduledTasksCount: (groupId: string) => Object.keys(getGroupState(groupId).scheduledJobs).length,
 };
 
-export const updateNextScheduledTasks = () => {
+export const updateNextScheduledTasks = (groupId: string) => {
+  const state = getGroupState(groupId);
+
   // Get actual next post dates (not when jobs fire)
-  const nextDates = getActualNextPostDates();
-  
-  botStatus.nextScheduledTasks = nextDates.map((d) => {
+  const nextDates = getActualNextPostDates(state.schedules);
+
+  state.nextScheduledTasks = nextDates.map((d) => {
     const dateStr = d.nextDate.toLocaleString("en-NZ", {
-      timeZone: "Pacific/Auckland",
+      timeZone: state.timezone,
       weekday: "short",
       month: "short",
       day: "numeric",
@@ -70,17 +112,18 @@ export const updateNextScheduledTasks = () => {
     });
     return `${d.label}: ${dateStr}`;
   });
-  
+
   // Update missed jobs display
-  botStatus.missedJobsDisplay = missedJobsCache.map((job) => {
+  state.missedJobsDisplay = state.missedJobsCache.map((job) => {
     const dateStr = job.scheduledFor.toLocaleDateString("en-NZ", {
-      timeZone: "Pacific/Auckland",
+      timeZone: state.timezone,
       weekday: "short",
       month: "short",
       day: "numeric",
     });
     const command = getCommandForJobType(job.jobType);
-    return `${getJobLabel(job.jobType as any)}: ${dateStr} (use ${command})`;
+    const hint = job.catchUpAction === "asked" ? `react ✅ to the admin DM or use ${command}` : `use ${command}`;
+    return `${getJobLabel(job.jobType as any)}: ${dateStr} (${hint})`;
   });
 };
 
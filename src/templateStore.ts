@@ -0,0 +1,32 @@
+// Persist per-group message template overrides (groups without overrides use the defaults)
+import { db } from "./db";
+import type { TemplateKey } from "./templates";
+
+export const getTemplateOverride = async (groupId: string, key: TemplateKey): Promise<string | null> => {
+  const template = await db.messageTemplate.findUnique({
+    where: { groupId_key: { groupId, key } },
+  });
+  return template?.body ?? null;
+};
+
+export const getTemplateOverrides = async (groupId: string): Promise<Partial<Record<TemplateKey, string>>> => {
+  const templates = await db.messageTemplate.findMany({
+    where: { groupId },
+  });
+  return Object.fromEntries(templates.map((t) => [t.key, t.body]));
+};
+
+export const saveTemplate = async (groupId: string, key: TemplateKey, body: string): Promise<void> => {
+  await db.messageTemplate.upsert({
+    where: { groupId_key: { groupId, key } },
+    update: { body },
+    create: { groupId, key, body },
+  });
+  console.log(`[TemplateStore] Saved ${key} template for ${groupId}`);
+};
+
+export const resetTemplate = async (groupId: string, key: TemplateKey): Promise<void> => {
+  await db.messageTemplate.deleteMany({
+    where: { groupId, key },
+  });
+};
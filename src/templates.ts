@@ -0,0 +1,73 @@
+// Message templates for scheduled posts - shared by the cron jobs and manual commands
+import { getUsersWithActiveGoals } from "./goalStore";
+import { getCurrentSprint } from "./sprintStore";
+import { getGroupState } from "./state";
+import { getNextPostDate } from "./dateCalculator";
+import { now } from "./clock";
+import { getTemplateOverride } from "./templateStore";
+import type { JobSchedule } from "./schedule";
+
+export type TemplateKey = "monday" | "friday" | "demo" | "checkIn" | "checkInNoGoals" | "monthEnd";
+
+export const TEMPLATE_KEYS: TemplateKey[] = ["monday", "friday", "demo", "checkIn", "checkInNoGoals", "monthEnd"];
+
+export const TEMPLATE_VARIABLES = ["sprintNumber", "activeUsers", "daysLeft", "groupName"] as const;
+
+export type TemplateVariables = Record<(typeof TEMPLATE_VARIABLES)[number], string | number>;
+
+export const DEFAULT_TEMPLATES: Record<TemplateKey, string> = {
+  monday:
+    "*Sprint Kickoff* 🚀\n\n👉 What are your main goals for the next 2 weeks?\n\nShare below and let's crush this sprint together! 💪",
+  friday:
+    "*Sprint Review* 🔍\n\n👉 How did you do on your sprint goals?\n\nShare your wins, learnings, and let's celebrate our growth! 🎉",
+  demo: "*Demo Day* 🎬\n\n👉 Share what you've been cooking up!\n\nThere is no specific format. Could be a short vid, link, screenshot or picture. 🏆",
+  checkIn:
+    "*Mid-Sprint Check-in* 📊\n\nWe're halfway through the sprint! How's everyone tracking?\n\n👉 Share a quick update on your progress 👇",
+  checkInNoGoals: "*Mid-Sprint Check-in* 📊\n\nHow's everyone tracking on their goals? Drop an update below! 👇",
+  monthEnd:
+    "*Monthly Celebration* 🎊\n\nAs we close out the month, take a moment to reflect on your accomplishments!\n\nBe proud of what you've achieved ✨",
+};
+
+export const parseTemplateKey = (value: string): TemplateKey | null => {
+  return TEMPLATE_KEYS.find((key) => key.toLowerCase() === value.toLowerCase()) ?? null;
+};
+
+// Replace {variable} placeholders - unknown placeholders are left as-is
+export const renderTemplate = (body: string, variables: Partial<TemplateVariables>): string => {
+  return body.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = variables[name as keyof TemplateVariables];
+    return value === undefined ? placeholder : String(value);
+  });
+};
+
+// Days until the next sprint kickoff, based on the group's kickoff schedule
+export const getDaysLeftInSprint = (schedules: JobSchedule[]): number | string => {
+  const kickoff = schedules.find((s) => s.jobType === "monday");
+  if (!kickoff || !kickoff.enabled) return "?";
+  const from = now();
+  const nextKickoff = getNextPostDate(kickoff, from);
+  if (!nextKickoff) return "?";
+  return Math.ceil((nextKickoff.getTime() - from.getTime()) / (1000 * 60 * 60 * 24));
+};
+
+export const buildTemplateVariables = async (groupId: string): Promise<TemplateVariables> => {
+  const activeUsers = await getUsersWithActiveGoals(groupId);
+  const currentSprint = await getCurrentSprint(groupId);
+  const groupState = getGroupState(groupId);
+  return {
+    sprintNumber: currentSprint?.number ?? 1,
+    activeUsers: activeUsers.length,
+    daysLeft: getDaysLeftInSprint(groupState.schedules),
+    groupName: groupState.groupName || "the club",
+  };
+};
+
+export const getTemplateBody = async (groupId: string, key: TemplateKey): Promise<string> => {
+  return (await getTemplateOverride(groupId, key)) ?? DEFAULT_TEMPLATES[key];
+};
+
+// Render the current template for a group, with live variable values
+export const renderMessage = async (groupId: string, key: TemplateKey): Promise<string> => {
+  const [body, variables] = await Promise.all([getTemplateBody(groupId, key), buildTemplateVariables(groupId)]);
+  return renderTemplate(body, variables);
+};
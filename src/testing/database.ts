@@ -0,0 +1,15 @@
+// Test database helpers. `bun test` runs against an in-process PGlite database (see setup.ts);
+// set TEST_DATABASE_URL to use a real Postgres instead, such as the tmpfs-backed postgres-test
+// service in docker-compose.yml.
+import { Prisma } from "@prisma/client";
+import { db } from "../db";
+
+// Every table in the schema, so new models are cleared without updating a list here
+const TABLES = Prisma.dmmf.datamodel.models.map((model) => model.dbName ?? model.name);
+
+export const resetDatabase = async (): Promise<void> => {
+  if (process.env.NODE_ENV !== "test") {
+    throw new Error("resetDatabase only runs with NODE_ENV=test");
+  }
+  await db.$executeRawUnsafe(`TRUNCATE TABLE ${TABLES.map((t) => `"${t}"`).join(", ")} CASCADE`);
+};
@@ -0,0 +1,176 @@
+// In-memory stand-in for the whatsapp-web.js surface the bot uses (client, chats,
+// messages, reactions). Install it with setClient(fake.client) and feed messages
+// from fake.receive() into handleMessage - everything the bot sends lands in fake.sent.
+import type { Chat, Client, Message, Reaction } from "whatsapp-web.js";
+
+export interface SentMessage {
+  id: string;
+  chatId: string;
+  body: string;
+  quotedId: string | null;
+  mentions: string[];
+}
+
+export interface SentReaction {
+  messageId: string;
+  emoji: string;
+}
+
+interface FakeParticipant {
+  id: { _serialized: string };
+  isAdmin: boolean;
+  isSuperAdmin: boolean;
+}
+
+interface FakeMessage {
+  id: { _serialized: string; remote: string; fromMe: boolean };
+  body: string;
+  from: string;
+  author: string | undefined;
+  fromMe: boolean;
+  hasQuotedMsg: boolean;
+  timestamp: number;
+  reply: (text: string) => Promise<FakeMessage>;
+  react: (emoji: string) => Promise<void>;
+  getQuotedMessage: () => Promise<FakeMessage>;
+  getChat: () => Promise<FakeChat>;
+}
+
+interface FakeChat {
+  id: { _serialized: string };
+  name: string;
+  isGroup: boolean;
+  participants: FakeParticipant[];
+  sendMessage: (text: string, options?: { mentions?: string[]; quotedMessageId?: string }) => Promise<FakeMessage>;
+}
+
+export const createFakeWhatsApp = (botId = "bot@c.us") => {
+  const chats = new Map<string, FakeChat>();
+  const messages = new Map<string, FakeMessage>();
+  const contacts = new Map<string, string>();
+  const linkedIds = new Map<string, { lid: string; pn: string }>();
+  const sent: SentMessage[] = [];
+  const reactions: SentReaction[] = [];
+  let nextId = 1;
+
+  const getChat = (chatId: string): FakeChat => {
+    const chat = chats.get(chatId);
+    if (!chat) throw new Error(`Unknown chat ${chatId}`);
+    return chat;
+  };
+
+  const createMessage = (chatId: string, body: string, sender: string, quotedId: string | null): FakeMessage => {
+    const fromMe = sender === botId;
+    const isGroup = chatId.endsWith("@g.us");
+    const message: FakeMessage = {
+      id: { _serialized: `${fromMe ? "true" : "false"}_${chatId}_FAKE${nextId++}`, remote: chatId, fromMe },
+      body,
+      from: fromMe ? botId : chatId,
+      author: isGroup && !fromMe ? sender : undefined,
+      fromMe,
+      hasQuotedMsg: quotedId !== null,
+      timestamp: Math.floor(Date.now() / 1000),
+      reply: (text) => send(chatId, text, message.id._serialized),
+      react: async (emoji) => {
+        reactions.push({ messageId: message.id._serialized, emoji });
+      },
+      getQuotedMessage: async () => {
+        const quoted = quotedId ? messages.get(quotedId) : undefined;
+        if (!quoted) throw new Error("No quoted message");
+        return quoted;
+      },
+      getChat: async () => getChat(chatId),
+    };
+    messages.set(message.id._serialized, message);
+    return message;
+  };
+
+  const send = async (chatId: string, body: string, quotedId: string | null = null, mentions: string[] = []) => {
+    const message = createMessage(chatId, body, botId, quotedId);
+    sent.push({ id: message.id._serialized, chatId, body, quotedId, mentions });
+    return message;
+  };
+
+  const addChat = (chatId: string, name: string, participantIds: string[]): FakeChat => {
+    const chat: FakeChat = {
+      id: { _serialized: chatId },
+      name,
+      isGroup: chatId.endsWith("@g.us"),
+      participants: participantIds.map((id) => ({ id: { _serialized: id }, isAdmin: false, isSuperAdmin: false })),
+      sendMessage: (text, options) => send(chatId, text, options?.quotedMessageId ?? null, options?.mentions ?? []),
+    };
+    chats.set(chatId, chat);
+    return chat;
+  };
+
+  const client = {
+    info: { wid: { _serialized: botId } },
+    getChatById: async (chatId: string) => getChat(chatId),
+    // Documents are recorded by file name
+    sendMessage: (
+      chatId: string,
+      content: string | { filename: string },
+      options?: { mentions?: string[]; quotedMessageId?: string }
+    ) =>
+      send(
+        chatId,
+        typeof content === "string" ? content : `[document] ${content.filename}`,
+        options?.quotedMessageId ?? null,
+        options?.mentions ?? []
+      ),
+    getMessageById: async (messageId: string) => messages.get(messageId),
+    getContactById: async (id: string) => ({ id: { _serialized: id }, pushname: contacts.get(id), name: contacts.get(id) }),
+    getNumberId: async (number: string) => ({ _serialized: `${number}@c.us` }),
+    getContactLidAndPhone: async (ids: string[]) =>
+      ids.map(
+        (id) => linkedIds.get(id) ?? { lid: id.endsWith("@lid") ? id : "", pn: id.endsWith("@c.us") ? id : "" }
+      ),
+  };
+
+  return {
+    client: client as unknown as Client,
+    sent,
+    reactions,
+
+    addGroup: (groupId: string, name: string, participantIds: string[] = []) =>
+      addChat(groupId, name, participantIds) as unknown as Chat,
+
+    addDirectChat: (userId: string, name = userId) => addChat(userId, name, [userId]) as unknown as Chat,
+
+    setContactName: (userId: string, name: string) => {
+      contacts.set(userId, name);
+    },
+
+    // The same person's phone ID and linked-device ID, as WhatsApp reports them
+    linkIds: (phoneId: string, lid: string) => {
+      linkedIds.set(phoneId, { lid, pn: phoneId });
+      linkedIds.set(lid, { lid, pn: phoneId });
+    },
+
+    // A message from a member (or, in a direct chat, from the chat's owner)
+    receive: (chatId: string, body: string, options: { author?: string; quotedId?: string } = {}): Message => {
+      getChat(chatId);
+      return createMessage(chatId, body, options.author ?? chatId, options.quotedId ?? null) as unknown as Message;
+    },
+
+    // A member reacting to a message, shaped like the message_reaction event payload
+    react: (messageId: string, senderId: string, emoji: string): Reaction => {
+      const message = messages.get(messageId);
+      if (!message) throw new Error(`Unknown message ${messageId}`);
+      return {
+        id: { _serialized: `reaction-${nextId++}`, remote: message.id.remote, fromMe: senderId === botId },
+        msgId: message.id,
+        senderId,
+        reaction: emoji,
+        timestamp: Math.floor(Date.now() / 1000),
+        orphan: 0,
+        read: false,
+      } as unknown as Reaction;
+    },
+
+    // Messages the bot sent to a chat, oldest first
+    sentTo: (chatId: string) => sent.filter((m) => m.chatId === chatId),
+  };
+};
+
+export type FakeWhatsApp = ReturnType<typeof createFakeWhatsApp>;
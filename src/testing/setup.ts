@@ -0,0 +1,24 @@
+// Preloaded by `bun test` (see bunfig.toml). Without TEST_DATABASE_URL the tests run against an
+// in-process PGlite database with the migrations applied, so they need no Postgres server.
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { PGlite } from "@electric-sql/pglite";
+import { Prisma, PrismaClient } from "@prisma/client";
+import { PrismaPGlite } from "pglite-prisma-adapter";
+
+if (!process.env.TEST_DATABASE_URL) {
+  const pglite = new PGlite();
+  const migrationsDir = join(import.meta.dir, "../../prisma/migrations");
+  const migrations = readdirSync(migrationsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+  for (const migration of migrations) {
+    await pglite.exec(readFileSync(join(migrationsDir, migration, "migration.sql"), "utf8"));
+  }
+  // The adapter is typed against an older @prisma/driver-adapter-utils, but passes query
+  // arguments through as they are, so the newer argument type descriptions don't matter
+  const adapter = new PrismaPGlite(pglite) as unknown as NonNullable<Prisma.PrismaClientOptions["adapter"]>;
+  // Picked up by src/db.ts in place of a client for DATABASE_URL
+  (globalThis as unknown as { prisma: PrismaClient }).prisma = new PrismaClient({ adapter });
+}
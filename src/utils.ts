@@ -1,61 +1,133 @@
 // Helper utility functions
+//
+// Dates are handled as real instants (Date) plus calendar days in a timezone (CalendarDay).
+// Schedule rules work on calendar days; zonedTimeToInstant turns a day and wall-clock time
+// back into an instant, so nothing depends on the server's own timezone.
+import { now } from "./clock";
 
-export const formatDate = (date: Date): string => {
+// A calendar date as seen in some timezone (month is 1-12)
+export interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface ZonedParts extends CalendarDay {
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+export const formatDate = (date: Date, timezone: string): string => {
   return date.toLocaleString("en-NZ", {
-    timeZone: "Pacific/Auckland",
+    timeZone: timezone,
     dateStyle: "medium",
     timeStyle: "medium",
   });
 };
 
-export const isLastDayOfMonth = (date: Date): boolean => {
-  const nextDay = new Date(date);
-  nextDay.setDate(date.getDate() + 1);
-  return nextDay.getDate() === 1;
+// Creating Intl formatters is slow, so keep one per timezone
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = partsFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    partsFormatters.set(timezone, formatter);
+  }
+  return formatter;
 };
 
-export const getISOWeekNumber = (date: Date): number => {
-  const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
-  const dayNum = d.getUTCDay() || 7;
-  d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-  return Math.ceil(((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+// Wall-clock date and time of an instant in a timezone
+export const getZonedParts = (instant: Date, timezone: string): ZonedParts => {
+  const parts: Record<string, number> = {};
+  for (const part of getPartsFormatter(timezone).formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  const day = { year: parts.year, month: parts.month, day: parts.day };
+  return { ...day, hour: parts.hour, minute: parts.minute, second: parts.second, weekday: getWeekday(day) };
 };
 
-export const isSprintWeek = (date: Date): boolean => {
-  return getISOWeekNumber(date) % 2 === 1;
+export const getZonedDay = (instant: Date, timezone: string): CalendarDay => {
+  const { year, month, day } = getZonedParts(instant, timezone);
+  return { year, month, day };
 };
 
-// Check if date is the 1st or 3rd Monday of the month (sprint kickoff days)
-export const isFirstOrThirdMonday = (date: Date): boolean => {
-  if (date.getDay() !== 1) return false; // Not Monday
-  const dayOfMonth = date.getDate();
-  // 1st Monday: day 1-7, 3rd Monday: day 15-21
-  return (dayOfMonth >= 1 && dayOfMonth <= 7) || (dayOfMonth >= 15 && dayOfMonth <= 21);
+// Today's date in a timezone
+export const getToday = (timezone: string): CalendarDay => getZonedDay(now(), timezone);
+
+// How far the timezone's wall clock is ahead of UTC at an instant
+const getOffsetMs = (instant: Date, timezone: string): number => {
+  const p = getZonedParts(instant, timezone);
+  const wallAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallAsUtc - (instant.getTime() - instant.getUTCMilliseconds());
 };
 
-// Check if date is the 2nd or 4th Friday of the month (sprint review days)
-export const isSecondOrFourthFriday = (date: Date): boolean => {
-  if (date.getDay() !== 5) return false; // Not Friday
-  const dayOfMonth = date.getDate();
-  // 2nd Friday: day 8-14, 4th Friday: day 22-28
-  return (dayOfMonth >= 8 && dayOfMonth <= 14) || (dayOfMonth >= 22 && dayOfMonth <= 28);
+/**
+ * The instant at which the wall clock in a timezone shows the given day and time.
+ * A time skipped by a DST jump lands just after the jump; a repeated time resolves
+ * to its first occurrence.
+ */
+export const zonedTimeToInstant = (day: CalendarDay, hour: number, minute: number, timezone: string): Date => {
+  const wallAsUtc = Date.UTC(day.year, day.month - 1, day.day, hour, minute);
+  // The offsets either side of any DST change near this time - the earlier one first,
+  // so a repeated time matches its first occurrence
+  const offsetBefore = getOffsetMs(new Date(wallAsUtc - 86400000), timezone);
+  const offsetAfter = getOffsetMs(new Date(wallAsUtc + 86400000), timezone);
+
+  for (const offset of [offsetBefore, offsetAfter]) {
+    const instant = wallAsUtc - offset;
+    if (getOffsetMs(new Date(instant), timezone) === offset) return new Date(instant);
+  }
+  // Neither offset fits, so the time was skipped - keep the pre-jump offset to land after the jump
+  return new Date(wallAsUtc - offsetBefore);
 };
 
-// Check if date is the 2nd or 4th Wednesday of the month (mid-sprint check-in days)
-export const isSecondOrFourthWednesday = (date: Date): boolean => {
-  if (date.getDay() !== 3) return false; // Not Wednesday
-  const dayOfMonth = date.getDate();
-  // 2nd Wednesday: day 8-14, 4th Wednesday: day 22-28
-  return (dayOfMonth >= 8 && dayOfMonth <= 14) || (dayOfMonth >= 22 && dayOfMonth <= 28);
+const dayToUtc = (day: CalendarDay): number => Date.UTC(day.year, day.month - 1, day.day);
+
+export const getWeekday = (day: CalendarDay): number => new Date(dayToUtc(day)).getUTCDay();
+
+export const addDays = (day: CalendarDay, days: number): CalendarDay => {
+  const date = new Date(dayToUtc(day) + days * 86400000);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
 };
 
-export const isSecondSaturday = (date: Date): boolean => {
-  if (date.getDay() !== 6) return false; // Not Saturday
-  const dayOfMonth = date.getDate();
-  return dayOfMonth >= 8 && dayOfMonth <= 14;
+// Whole days from one calendar day to another
+export const daysBetween = (from: CalendarDay, to: CalendarDay): number => {
+  return Math.round((dayToUtc(to) - dayToUtc(from)) / 86400000);
 };
 
-export const getNZDate = (): Date => {
-  return new Date(new Date().toLocaleString("en-US", { timeZone: "Pacific/Auckland" }));
+export const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+export const toDateKey = (day: CalendarDay): string => {
+  return `${day.year}-${String(day.month).padStart(2, "0")}-${String(day.day).padStart(2, "0")}`;
+};
+
+export const parseDateKey = (key: string): CalendarDay | null => {
+  const match = key.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const day = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  return day.month >= 1 && day.month <= 12 && day.day >= 1 && day.day <= daysInMonth(day.year, day.month)
+    ? day
+    : null;
+};
+
+export const isLastDayOfMonth = (day: CalendarDay): boolean => day.day === daysInMonth(day.year, day.month);
+
+// Check if a day is the nth weekday of its month (nth: 1-5, or -1 for the last one)
+export const isNthWeekdayOfMonth = (day: CalendarDay, weekday: number, nth: number[]): boolean => {
+  if (getWeekday(day) !== weekday) return false;
+  const weekOfMonth = Math.ceil(day.day / 7);
+  const isLast = day.day + 7 > daysInMonth(day.year, day.month);
+  return nth.includes(weekOfMonth) || (isLast && nth.includes(-1));
 };
@@ -0,0 +1,82 @@
+// Post date calculation for the default schedules, across DST changes and month ends
+import { describe, expect, test } from "bun:test";
+import type { JobType } from "../src/dateCalculator";
+import { getMostRecentScheduledDate, getNextPostDate, getScheduledDatesBetween } from "../src/dateCalculator";
+import type { JobSchedule } from "../src/schedule";
+import { DEFAULT_SCHEDULES } from "../src/schedule";
+import { zonedTimeToInstant } from "../src/utils";
+
+const schedule = (jobType: JobType, timezone = "Pacific/Auckland"): JobSchedule => ({
+  ...DEFAULT_SCHEDULES[jobType],
+  timezone,
+});
+
+const iso = (dates: (Date | null)[]) => dates.map((d) => d?.toISOString() ?? null);
+
+describe("getNextPostDate", () => {
+  test("kickoffs post on the first and third Monday at 9am local time", () => {
+    expect(iso([getNextPostDate(schedule("monday"), new Date("2026-10-01T00:00:00Z"))])).toEqual([
+      "2026-10-04T20:00:00.000Z",
+    ]);
+    expect(iso([getNextPostDate(schedule("monday"), new Date("2026-10-04T20:00:00Z"))])).toEqual([
+      "2026-10-18T20:00:00.000Z",
+    ]);
+  });
+
+  test("month-end posts on the last day of the month", () => {
+    expect(iso([getNextPostDate(schedule("monthEnd"), new Date("2027-02-01T00:00:00Z"))])).toEqual([
+      "2027-02-27T20:00:00.000Z",
+    ]);
+  });
+
+  test("post times follow the group's timezone through DST", () => {
+    const london = schedule("monday", "Europe/London");
+    expect(iso([getNextPostDate(london, new Date("2026-03-01T00:00:00Z"))])).toEqual(["2026-03-02T09:00:00.000Z"]);
+    expect(iso([getNextPostDate(london, new Date("2026-04-01T00:00:00Z"))])).toEqual(["2026-04-06T08:00:00.000Z"]);
+  });
+});
+
+describe("getScheduledDatesBetween", () => {
+  test("lists every post in the window, with the offset changing at the NZ DST start", () => {
+    const dates = getScheduledDatesBetween(
+      schedule("monday"),
+      new Date("2026-09-01T00:00:00Z"),
+      new Date("2026-10-31T00:00:00Z")
+    );
+    expect(iso(dates)).toEqual([
+      "2026-09-06T21:00:00.000Z",
+      "2026-09-20T21:00:00.000Z",
+      "2026-10-04T20:00:00.000Z",
+      "2026-10-18T20:00:00.000Z",
+    ]);
+  });
+
+  test("leaves out posts at the window's edges", () => {
+    const dates = getScheduledDatesBetween(
+      schedule("monday"),
+      new Date("2026-10-04T20:00:00Z"),
+      new Date("2026-10-18T20:00:00Z")
+    );
+    expect(dates).toEqual([]);
+  });
+});
+
+describe("getMostRecentScheduledDate", () => {
+  test("finds the latest post before a time", () => {
+    expect(iso([getMostRecentScheduledDate(schedule("friday"), new Date("2026-10-20T00:00:00Z"))])).toEqual([
+      "2026-10-09T02:30:00.000Z",
+    ]);
+  });
+});
+
+describe("zonedTimeToInstant", () => {
+  test("a time skipped by the DST jump lands just after it", () => {
+    const instant = zonedTimeToInstant({ year: 2026, month: 9, day: 27 }, 2, 30, "Pacific/Auckland");
+    expect(instant.toISOString()).toBe("2026-09-26T14:30:00.000Z");
+  });
+
+  test("a repeated time resolves to its first occurrence", () => {
+    const instant = zonedTimeToInstant({ year: 2026, month: 4, day: 5 }, 2, 30, "Pacific/Auckland");
+    expect(instant.toISOString()).toBe("2026-04-04T13:30:00.000Z");
+  });
+});
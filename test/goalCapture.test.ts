@@ -0,0 +1,153 @@
+// Goal capture end to end: a kickoff, a member's reply picked up by the (fake) LLM, the
+// confirmation prompt and its answers, completion matching and the leftover goal review
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { setClient } from "../src/client";
+import { resetClock, setClock } from "../src/clock";
+import { handleMessage, handleReaction } from "../src/handlers";
+import { runAsLeader, releaseLeadership } from "../src/leader";
+import { drainOutbox } from "../src/outbox";
+import { sendLeftoverGoalPrompts } from "../src/goalReview";
+import { getActiveGoals } from "../src/goalStore";
+import { db } from "../src/db";
+import { createFakeProvider, setProvider } from "../src/providers";
+import { createFakeWhatsApp } from "../src/testing/fakeWhatsApp";
+import type { FakeWhatsApp } from "../src/testing/fakeWhatsApp";
+import { resetDatabase } from "../src/testing/database";
+
+const MEMBER = "447700900001@c.us";
+const OTHER = "447700900002@c.us";
+
+// Extraction splits the message into goals by line; matching picks goals whose text appears
+const llm = createFakeProvider([
+  {
+    match: "Extract the goals",
+    response: (prompt) => {
+      const message = prompt.match(/^Message: "([\s\S]*?)"\n\nExamples/m)?.[1] ?? "";
+      return JSON.stringify({ goals: message.split("\n").map((line) => line.trim()).filter(Boolean) });
+    },
+  },
+  {
+    match: "Match their message",
+    response: (prompt) => {
+      const message = prompt.match(/^User's message: "([\s\S]*?)"\n\nReturn/m)?.[1]?.toLowerCase() ?? "";
+      const matches = [...prompt.matchAll(/^\d+\. \[(.+?)\] (.+)$/gm)]
+        .filter(([, , text]) => message.includes(text.toLowerCase()))
+        .map(([, goalId]) => ({ goalId, confidence: "high" }));
+      return JSON.stringify({ matches });
+    },
+  },
+]);
+
+describe("goal capture", () => {
+  let fake: FakeWhatsApp;
+  let groupCount = 0;
+  let GROUP = "";
+
+  const send = async (body: string, options: { author?: string; quotedId?: string } = {}) => {
+    await handleMessage(fake.receive(GROUP, body, { author: MEMBER, ...options }));
+    await drainOutbox();
+  };
+
+  const goalTexts = async (status: string) =>
+    (await db.goal.findMany({ where: { groupId: GROUP, status } })).map((g) => g.text).sort();
+
+  // Post the kickoff and return it
+  const kickoff = async () => {
+    await send("!bot monday");
+    return fake.sentTo(GROUP).at(-1)!;
+  };
+
+  beforeAll(async () => {
+    setProvider("extraction", llm);
+    setProvider("matching", llm);
+    await runAsLeader(async () => {}, () => {});
+  });
+
+  afterAll(async () => {
+    await releaseLeadership();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+    setClock(() => new Date("2026-10-05T20:00:00Z"));
+    fake = createFakeWhatsApp();
+    setClient(fake.client);
+    GROUP = `capture-${++groupCount}@g.us`;
+    fake.addGroup(GROUP, "Koru Club", [MEMBER, OTHER]);
+    fake.addDirectChat(MEMBER);
+    await send("kia ora");
+  });
+
+  afterEach(() => {
+    resetClock();
+  });
+
+  test("a reply to the kickoff is held as pending goals until the member confirms", async () => {
+    const post = await kickoff();
+    await send("Run 5k\nRead a book", { quotedId: post.id });
+
+    expect(llm.calls.some((prompt) => prompt.includes("Run 5k\nRead a book"))).toBe(true);
+    const prompt = fake.sentTo(GROUP).at(-1)!;
+    expect(prompt.body).toContain("1. Run 5k\n2. Read a book");
+    expect(await goalTexts("pending")).toEqual(["Read a book", "Run 5k"]);
+    expect(await getActiveGoals(GROUP, MEMBER)).toEqual([]);
+
+    // Only the member who set the goals can confirm them
+    await handleReaction(fake.react(prompt.id, OTHER, "✅"));
+    await drainOutbox();
+    expect(await goalTexts("active")).toEqual([]);
+
+    await handleReaction(fake.react(prompt.id, MEMBER, "✅"));
+    expect(await goalTexts("active")).toEqual(["Read a book", "Run 5k"]);
+  });
+
+  test("an edit: reply replaces the pending goals", async () => {
+    const post = await kickoff();
+    await send("Run 5k", { quotedId: post.id });
+    const prompt = fake.sentTo(GROUP).at(-1)!;
+
+    await send("thanks!", { quotedId: prompt.id });
+    expect(fake.sentTo(GROUP).at(-1)!.body).toContain("*edit:*");
+    expect(await goalTexts("pending")).toEqual(["Run 5k"]);
+
+    await send("edit:\n1. Run 10k\n2. Stretch daily", { quotedId: prompt.id });
+    expect(await goalTexts("active")).toEqual(["Run 10k", "Stretch daily"]);
+    expect(await goalTexts("pending")).toEqual([]);
+  });
+
+  test("messages after the kickoff window aren't read for goals", async () => {
+    await kickoff();
+    setClock(() => new Date("2026-10-09T20:00:00Z"));
+    await send("Learn Spanish");
+    expect(await db.goal.count({ where: { groupId: GROUP } })).toBe(0);
+  });
+
+  test("a message saying a goal is done completes it", async () => {
+    await send("!bot goal add Run 5k\nRead a book");
+    await send("Finally done: run 5k 🙌");
+    expect(await goalTexts("completed")).toEqual(["Run 5k"]);
+    expect(fake.reactions.map((r) => r.emoji)).toContain("🎉");
+  });
+
+  test("leftover goals are reviewed by DM", async () => {
+    await send("!bot goal add Run 5k\nRead a book\nLearn Spanish");
+    expect(await sendLeftoverGoalPrompts(GROUP)).toBe(1);
+    await drainOutbox();
+
+    const prompt = fake.sentTo(MEMBER).at(-1)!;
+    expect(prompt.body).toContain("3 unfinished goals in *Koru Club*");
+
+    await handleMessage(fake.receive(MEMBER, "done 1, drop 3", { quotedId: prompt.id }));
+    await drainOutbox();
+    expect(await goalTexts("completed")).toEqual(["Run 5k"]);
+    expect(await goalTexts("dropped")).toEqual(["Learn Spanish"]);
+    expect(await goalTexts("active")).toEqual(["Read a book"]);
+  });
+
+  test("leftover goals are only reviewed once per sprint", async () => {
+    await send("!bot goal add Run 5k");
+    expect(await sendLeftoverGoalPrompts(GROUP)).toBe(1);
+    await send("!bot friday");
+    expect(fake.sentTo(MEMBER)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,117 @@
+// Missed-job detection end to end: the bot goes offline between two heartbeats, and on
+// startup records what it missed and applies each job's catch-up policy
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { setClient } from "../src/client";
+import { resetClock, setClock } from "../src/clock";
+import { db } from "../src/db";
+import { handleMessage } from "../src/handlers";
+import { getMissedJobs, updateHeartbeat } from "../src/jobTracker";
+import { runAsLeader, releaseLeadership } from "../src/leader";
+import { drainOutbox } from "../src/outbox";
+import { checkMissedJobs } from "../src/scheduler";
+import { getCurrentSprint } from "../src/sprintStore";
+import { createFakeWhatsApp } from "../src/testing/fakeWhatsApp";
+import type { FakeWhatsApp } from "../src/testing/fakeWhatsApp";
+import { resetDatabase } from "../src/testing/database";
+
+const MEMBER = "447700900001@c.us";
+
+describe("missed jobs", () => {
+  let fake: FakeWhatsApp;
+  let groupCount = 0;
+  let GROUP = "";
+
+  // Go offline at `from` and start back up at `to`
+  const restartAfterDowntime = async (from: string, to: string) => {
+    setClock(() => new Date(from));
+    await updateHeartbeat(GROUP);
+    setClock(() => new Date(to));
+    await checkMissedJobs(GROUP);
+    await drainOutbox();
+  };
+
+  const runs = async () =>
+    (await db.scheduledJobRun.findMany({ where: { groupId: GROUP }, orderBy: { scheduledFor: "asc" } })).map((r) => ({
+      jobType: r.jobType,
+      scheduledFor: r.scheduledFor.toISOString(),
+      status: r.status,
+    }));
+
+  beforeAll(async () => {
+    await runAsLeader(async () => {}, () => {});
+  });
+
+  afterAll(async () => {
+    await releaseLeadership();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+    fake = createFakeWhatsApp();
+    setClient(fake.client);
+    GROUP = `missed-${++groupCount}@g.us`;
+    fake.addGroup(GROUP, "Koru Club", [MEMBER]);
+    await handleMessage(fake.receive(GROUP, "kia ora", { author: MEMBER }));
+  });
+
+  afterEach(() => {
+    resetClock();
+  });
+
+  test("a kickoff missed within its grace window is posted on startup", async () => {
+    // The 1st Monday of November, 9am in Auckland
+    await restartAfterDowntime("2026-11-01T00:00:00Z", "2026-11-02T00:00:00Z");
+
+    expect(await runs()).toEqual([
+      { jobType: "monday", scheduledFor: "2026-11-01T20:00:00.000Z", status: "completed" },
+    ]);
+    const kickoff = fake.sentTo(GROUP).at(-1)!;
+    expect((await getCurrentSprint(GROUP))?.kickoffMessageId).toBe(kickoff.id);
+  });
+
+  test("a manual trigger before a catch-up post is delivered records its own run", async () => {
+    setClock(() => new Date("2026-11-01T00:00:00Z"));
+    await updateHeartbeat(GROUP);
+    setClock(() => new Date("2026-11-02T00:00:00Z"));
+    await checkMissedJobs(GROUP);
+    await handleMessage(fake.receive(GROUP, "!bot monday", { author: MEMBER }));
+    await drainOutbox();
+
+    expect(await runs()).toEqual([
+      { jobType: "monday", scheduledFor: "2026-11-01T20:00:00.000Z", status: "completed" },
+      { jobType: "monday", scheduledFor: "2026-11-02T00:00:00.000Z", status: "manual" },
+    ]);
+  });
+
+  test("runs missed too long ago stay missed for a manual trigger", async () => {
+    await restartAfterDowntime("2026-10-20T00:00:00Z", "2026-11-02T00:00:00Z");
+
+    expect(await runs()).toEqual([
+      { jobType: "friday", scheduledFor: "2026-10-23T02:30:00.000Z", status: "missed" },
+      { jobType: "checkIn", scheduledFor: "2026-10-27T20:00:00.000Z", status: "missed" },
+      { jobType: "monthEnd", scheduledFor: "2026-10-30T20:00:00.000Z", status: "missed" },
+      { jobType: "monday", scheduledFor: "2026-11-01T20:00:00.000Z", status: "completed" },
+    ]);
+    expect(fake.sentTo(GROUP)).toHaveLength(1);
+  });
+
+  test("posting a missed job by hand resolves it", async () => {
+    await restartAfterDowntime("2026-10-20T00:00:00Z", "2026-11-02T00:00:00Z");
+    await handleMessage(fake.receive(GROUP, "!bot friday", { author: MEMBER }));
+    await drainOutbox();
+    expect((await getMissedJobs(GROUP)).map((r) => r.jobType)).toEqual(["checkIn", "monthEnd"]);
+  });
+
+  test("a job that asks the admin is left missed when there's no admin chat", async () => {
+    // The 2nd Saturday of November, 10am in Auckland
+    await restartAfterDowntime("2026-11-13T20:00:00Z", "2026-11-14T00:00:00Z");
+
+    expect(await runs()).toEqual([{ jobType: "demo", scheduledFor: "2026-11-13T21:00:00.000Z", status: "missed" }]);
+    expect(fake.sent).toEqual([]);
+  });
+
+  test("a short restart doesn't look for missed jobs", async () => {
+    await restartAfterDowntime("2026-11-01T19:59:30Z", "2026-11-01T20:00:10Z");
+    expect(await runs()).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+// Message routing end to end: messages from the fake WhatsApp client through handleMessage,
+// the database and the outbox, back out as fake sent messages
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { setClient } from "../src/client";
+import { handleMessage } from "../src/handlers";
+import { runAsLeader, releaseLeadership } from "../src/leader";
+import { drainOutbox, queueMessage } from "../src/outbox";
+import { getActiveGoals } from "../src/goalStore";
+import { getStoredGroups } from "../src/groupStore";
+import { recordJobFired } from "../src/jobTracker";
+import { db } from "../src/db";
+import { createFakeWhatsApp } from "../src/testing/fakeWhatsApp";
+import type { FakeWhatsApp } from "../src/testing/fakeWhatsApp";
+import { resetDatabase } from "../src/testing/database";
+
+const MEMBER = "447700900001@c.us";
+
+describe("message routing", () => {
+  let fake: FakeWhatsApp;
+  // A new group per test - the bot keeps registered groups in memory
+  let groupCount = 0;
+  let GROUP = "";
+
+  // Deliver a group message from the member and whatever the bot queued in answer
+  const say = async (body: string, options: { quotedId?: string } = {}) => {
+    await handleMessage(fake.receive(GROUP, body, { author: MEMBER, ...options }));
+    await drainOutbox();
+    return fake.sentTo(GROUP).at(-1);
+  };
+
+  beforeAll(async () => {
+    await runAsLeader(async () => {}, () => {});
+  });
+
+  afterAll(async () => {
+    await releaseLeadership();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+    fake = createFakeWhatsApp();
+    setClient(fake.client);
+    GROUP = `routing-${++groupCount}@g.us`;
+    fake.addGroup(GROUP, "Koru Club", [MEMBER]);
+  });
+
+  test("a first message registers the group", async () => {
+    await say("kia ora");
+    expect((await getStoredGroups()).map((g) => g.id)).toContain(GROUP);
+    expect(fake.sentTo(GROUP)).toEqual([]);
+  });
+
+  test("goal commands add, complete and undo goals", async () => {
+    expect((await say("!bot goal add Run 5k\nRead a book"))?.body).toBe('➕ Added "Run 5k", "Read a book"');
+    expect((await getActiveGoals(GROUP, MEMBER)).map((g) => g.text)).toEqual(["Run 5k", "Read a book"]);
+
+    expect((await say("!bot done 1"))?.body).toStartWith('✅ Done: "Run 5k"');
+    expect(fake.reactions.map((r) => r.emoji)).toEqual(["🎉"]);
+    expect((await getActiveGoals(GROUP, MEMBER)).map((g) => g.text)).toEqual(["Read a book"]);
+
+    expect((await say("!bot undo"))?.body).toBe('↩️ Reopened: "Run 5k"');
+    expect((await getActiveGoals(GROUP, MEMBER)).map((g) => g.text)).toEqual(["Run 5k", "Read a book"]);
+    expect((await say("!bot undo"))?.body).toBe("↩️ Nothing to undo.");
+  });
+
+  test("goal command replies quote the command they answer", async () => {
+    const command = fake.receive(GROUP, "!bot goal add Run 5k", { author: MEMBER });
+    await handleMessage(command);
+    await drainOutbox();
+    expect(fake.sentTo(GROUP).map((m) => m.quotedId)).toEqual([command.id._serialized]);
+  });
+
+  test("group commands list the member's goals", async () => {
+    await say("!bot goal add Run 5k");
+    expect((await say("!bot goals"))?.body).toContain("Run 5k");
+  });
+
+  test("unknown commands and the bot's own messages are ignored", async () => {
+    await say("!bot dance");
+    await handleMessage(fake.receive(GROUP, "!bot goal add Sneaky", { author: "bot@c.us" }));
+    await drainOutbox();
+    expect(fake.sentTo(GROUP)).toEqual([]);
+    expect(await db.goal.count({ where: { groupId: GROUP } })).toBe(0);
+  });
+
+  test("forgetme leaves job posts alone, even ones containing a goal's text", async () => {
+    await say("!bot goal add gym");
+    const runId = await recordJobFired(GROUP, "friday", new Date());
+    const review = "🏁 Sprint Review - who made it to the gym?";
+    await queueMessage(GROUP, review, { key: `job:${runId}`, jobRunId: runId });
+
+    await say("!bot forgetme confirm");
+    expect(await getActiveGoals(GROUP, MEMBER)).toEqual([]);
+    expect(fake.sentTo(GROUP).map((m) => m.body)).toContain(review);
+    expect((await db.scheduledJobRun.findUnique({ where: { id: runId } }))?.status).toBe("completed");
+  });
+});